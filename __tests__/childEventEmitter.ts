@@ -0,0 +1,147 @@
+import { createChildEmitter } from "../src/childEventEmitter";
+import { createEventEmitter, type EventDescription } from "../src/eventEmitter";
+
+type AppEvents = EventDescription<"chat:message" | "chat:typing", { text: string }> &
+	EventDescription<"chat:clear" | "chat:room:join" | "logout">;
+
+type ChatEvents = EventDescription<"message", { text: string }> & EventDescription<"clear" | "room:join">;
+
+type MessageEvents = EventDescription<"message" | "typing", { text: string }>;
+
+type RoomEvents = EventDescription<"join">;
+
+describe("createChildEmitter", () => {
+	it("should bubble the events emitted on the child up to the parent, with the prefix, after the child listeners", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const chatEmitter = createChildEmitter<ChatEvents, "chat">(appEmitter, { prefix: "chat" });
+		const calls: string[] = [];
+		chatEmitter.subscribe("message", eventName => {
+			calls.push(`chat ${eventName}`);
+		});
+		appEmitter.subscribe("chat:message", (eventName, { text }) => {
+			calls.push(`app ${eventName} ${text}`);
+		});
+
+		chatEmitter.emit("message", { text: "Hello" });
+
+		expect(calls).toEqual(["chat message", "app chat:message Hello"]);
+	});
+
+	it("should keep the names of the events without prefix", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const sessionEmitter = createChildEmitter<EventDescription<"logout">>(appEmitter);
+		const logLogout = jest.fn();
+		appEmitter.subscribe("logout", logLogout);
+
+		sessionEmitter.emit("logout", undefined);
+
+		expect(logLogout).toHaveBeenCalledWith("logout", undefined);
+	});
+
+	it("should bubble the events up with the data passed on by the middleware, unless it swallows them", async () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const chatEmitter = createChildEmitter<MessageEvents, "chat">(appEmitter, {
+			prefix: "chat",
+			middleware: [
+				(eventName, data, next): void | Promise<void> =>
+					eventName === "typing" ? undefined : next({ text: `${data.text}!` })
+			]
+		});
+		const logEvent = jest.fn();
+		appEmitter.subscribeAny(logEvent);
+
+		await chatEmitter.emitAsync("message", { text: "Hello" });
+		chatEmitter.emit("typing", { text: "Hello" });
+
+		expect(logEvent.mock.calls).toEqual([[{ eventName: "chat:message", data: { text: "Hello!" } }]]);
+	});
+
+	it("should pass the broadcast events down from the parent without passing them back", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const chatEmitter = createChildEmitter<ChatEvents, "chat">(appEmitter, {
+			prefix: "chat",
+			broadcast: ["clear"]
+		});
+		const logClear = jest.fn();
+		const logAppClear = jest.fn();
+		const logMessage = jest.fn();
+		chatEmitter.subscribe("clear", logClear);
+		chatEmitter.subscribe("message", logMessage);
+		appEmitter.subscribe("chat:clear", logAppClear);
+
+		appEmitter.emit("chat:clear", undefined);
+		appEmitter.emit("chat:message", { text: "Hello" });
+		chatEmitter.emit("clear", undefined);
+
+		expect(logClear).toHaveBeenCalledTimes(2);
+		expect(logAppClear).toHaveBeenCalledTimes(2);
+		expect(logMessage).not.toHaveBeenCalled();
+	});
+
+	it("should pass the events bubbled up by a child down to its siblings", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const options = { prefix: "chat", broadcast: ["message"] } as const;
+		const chatEmitter = createChildEmitter<ChatEvents, "chat">(appEmitter, options);
+		const otherChatEmitter = createChildEmitter<ChatEvents, "chat">(appEmitter, options);
+		const logMessage = jest.fn();
+		const logOtherMessage = jest.fn();
+		chatEmitter.subscribe("message", logMessage);
+		otherChatEmitter.subscribe("message", logOtherMessage);
+
+		chatEmitter.emit("message", { text: "Hello" });
+
+		expect(logMessage).toHaveBeenCalledTimes(1);
+		expect(logOtherMessage).toHaveBeenCalledWith("message", { text: "Hello" });
+	});
+
+	it("should bubble the events of the grandchildren up through the children", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const chatEmitter = createChildEmitter<ChatEvents, "chat">(appEmitter, { prefix: "chat" });
+		const roomEmitter = createChildEmitter<RoomEvents, "room">(chatEmitter, { prefix: "room" });
+		const logJoin = jest.fn();
+		appEmitter.subscribe("chat:room:join", logJoin);
+
+		roomEmitter.emit("join", undefined);
+
+		expect(logJoin).toHaveBeenCalledWith("chat:room:join", undefined);
+	});
+
+	it("should remove the listeners of the child and its link to the parent when disposed", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const chatEmitter = createChildEmitter<ChatEvents, "chat">(appEmitter, {
+			prefix: "chat",
+			broadcast: ["clear"]
+		});
+		const logAppMessage = jest.fn();
+		const logClear = jest.fn();
+		appEmitter.subscribe("chat:message", logAppMessage);
+		chatEmitter.subscribe("clear", logClear);
+		expect(appEmitter.listenerCount("chat:clear")).toBe(1);
+
+		expect(chatEmitter.dispose()).toBe(true);
+		expect(chatEmitter.dispose()).toBe(false);
+		chatEmitter.subscribe("clear", logClear);
+		chatEmitter.emit("message", { text: "Hello" });
+		appEmitter.emit("chat:clear", undefined);
+
+		expect(logAppMessage).not.toHaveBeenCalled();
+		expect(logClear).not.toHaveBeenCalled();
+		expect(appEmitter.listenerCount("chat:clear")).toBe(0);
+		expect(chatEmitter.listenerCount()).toBe(1);
+	});
+
+	it("should type-check the events of the child against the events of the parent", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+
+		// @ts-expect-error The data of `chat:message` isn't a number
+		createChildEmitter<EventDescription<"message", number>, "chat">(appEmitter, { prefix: "chat" });
+		// @ts-expect-error There is no `chat:typing` event
+		createChildEmitter<EventDescription<"typing">, "chat">(appEmitter, { prefix: "chat" });
+		// @ts-expect-error There is no `message` event
+		createChildEmitter<ChatEvents>(appEmitter);
+		// @ts-expect-error The prefix is a type argument too
+		createChildEmitter<ChatEvents>(appEmitter, { prefix: "chat" });
+
+		expect(appEmitter.listenerCount()).toBe(0);
+	});
+});
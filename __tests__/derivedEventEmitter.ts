@@ -0,0 +1,165 @@
+import { filter, map, merge, pick, pipe, rename } from "../src/derivedEventEmitter";
+import { createEventEmitter, type EventDescription, type EventListener } from "../src/eventEmitter";
+
+type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string }> &
+	EventDescription<"checkout", { total: number }>;
+
+type ChatEvents = EventDescription<"message", { text: string }>;
+
+describe("derived emitters", () => {
+	it("should only pass the picked events on", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const [subscribe] = pipe(appEmitter, pick("userLogin", "userLogout"));
+		const logEvent = jest.fn();
+		subscribe("userLogin", logEvent);
+		subscribe("userLogout", logEvent);
+
+		appEmitter.emit("userLogin", { userId: "user1" });
+		appEmitter.emit("checkout", { total: 10 });
+		appEmitter.emit("userLogout", { userId: "user1" });
+
+		expect(logEvent.mock.calls).toEqual([
+			["userLogin", { userId: "user1" }],
+			["userLogout", { userId: "user1" }]
+		]);
+	});
+
+	it("should only pass the events matching the predicate on", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const bigCheckouts = pipe(
+			appEmitter,
+			filter(event => event.eventName === "checkout" && event.data.total > 100)
+		);
+		const logEvent = jest.fn();
+		bigCheckouts.subscribeAny(logEvent);
+
+		appEmitter.emit("checkout", { total: 10 });
+		appEmitter.emit("checkout", { total: 200 });
+		appEmitter.emit("userLogin", { userId: "user1" });
+
+		expect(logEvent.mock.calls).toEqual([[{ eventName: "checkout", data: { total: 200 } }]]);
+	});
+
+	it("should rename the events and transform their data, computing the event description", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const sessionEvents = pipe(
+			appEmitter,
+			pick("userLogin", "userLogout", "checkout"),
+			map({ userLogin: data => data.userId, userLogout: data => data.userId.length }),
+			rename({ userLogin: "login", userLogout: "logout" })
+		);
+		const logLogin: EventListener<EventDescription<"login", string>, "login"> = jest.fn();
+		const logLogout: EventListener<EventDescription<"logout", number>, "logout"> = jest.fn();
+		const logCheckout: EventListener<EventDescription<"checkout", { total: number }>, "checkout"> = jest.fn();
+		sessionEvents.subscribe("login", logLogin);
+		sessionEvents.subscribe("logout", logLogout);
+		sessionEvents.subscribe("checkout", logCheckout);
+
+		appEmitter.emit("userLogin", { userId: "user1" });
+		appEmitter.emit("userLogout", { userId: "user1" });
+		appEmitter.emit("checkout", { total: 10 });
+
+		expect(logLogin).toHaveBeenCalledWith("login", "user1");
+		expect(logLogout).toHaveBeenCalledWith("logout", 5);
+		expect(logCheckout).toHaveBeenCalledWith("checkout", { total: 10 });
+		expect(sessionEvents.eventNames()).toEqual(["login", "logout", "checkout"]);
+	});
+
+	it("should not rename or transform the events named after inherited properties", () => {
+		const emitter = createEventEmitter<EventDescription<string, number>>();
+		const { subscribeAny } = pipe(
+			emitter,
+			map({ valueOf: (data: number) => data * 2 }),
+			rename({ valueOf: "double" })
+		);
+		const logEvent = jest.fn();
+		subscribeAny(logEvent);
+
+		emitter.emit("toString", 1);
+		emitter.emit("valueOf", 2);
+
+		expect(logEvent.mock.calls).toEqual([[{ eventName: "toString", data: 1 }], [{ eventName: "double", data: 4 }]]);
+	});
+
+	it("should merge the events of several emitters", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const chatEmitter = createEventEmitter<ChatEvents>();
+		const [subscribe] = merge(appEmitter, chatEmitter);
+		const logEvent = jest.fn();
+		subscribe("checkout", logEvent);
+		subscribe("message", logEvent);
+
+		appEmitter.emit("checkout", { total: 10 });
+		chatEmitter.emit("message", { text: "Hello" });
+
+		expect(logEvent.mock.calls).toEqual([
+			["checkout", { total: 10 }],
+			["message", { text: "Hello" }]
+		]);
+	});
+
+	it("should only subscribe to the sources while it has listeners", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const chatEmitter = createEventEmitter<ChatEvents>();
+		const derived = pipe(merge(appEmitter, chatEmitter), pick("message", "userLogin"));
+
+		expect(appEmitter.listenerCount()).toBe(0);
+		const unsubscribeMessage = derived.subscribe("message", jest.fn());
+		const unsubscribeAny = derived.subscribeAny(jest.fn());
+		const unsubscribePattern = derived.subscribePattern("user*", jest.fn());
+		expect(appEmitter.listenerCount()).toBe(1);
+		expect(chatEmitter.listenerCount()).toBe(1);
+		expect(derived.listenerCount()).toBe(3);
+		expect(derived.hasListeners("userLogin")).toBe(true);
+
+		expect(unsubscribeMessage()).toBe(true);
+		expect(unsubscribeAny()).toBe(true);
+		expect(appEmitter.listenerCount()).toBe(1);
+		expect(unsubscribePattern()).toBe(true);
+		expect(unsubscribePattern()).toBe(false);
+
+		expect(appEmitter.listenerCount()).toBe(0);
+		expect(chatEmitter.listenerCount()).toBe(0);
+	});
+
+	it("should unsubscribe from the sources when all the listeners are unsubscribed at once", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const [subscribe, unsubscribeAll] = pipe(appEmitter, pick("userLogin", "userLogout"));
+		subscribe("userLogin", jest.fn());
+		subscribe("userLogout", jest.fn());
+
+		unsubscribeAll("userLogin");
+		expect(appEmitter.listenerCount()).toBe(1);
+		unsubscribeAll();
+
+		expect(appEmitter.listenerCount()).toBe(0);
+	});
+
+	it("should unsubscribe from the sources with the next event once the listeners are aborted", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const controller = new AbortController();
+		const [subscribe] = pipe(appEmitter, pick("userLogin"));
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", logUserLogin, { signal: controller.signal });
+
+		controller.abort();
+		expect(appEmitter.listenerCount()).toBe(1);
+		appEmitter.emit("userLogin", { userId: "user1" });
+
+		expect(appEmitter.listenerCount()).toBe(0);
+		expect(logUserLogin).not.toHaveBeenCalled();
+	});
+
+	it("should subscribe to the sources again with a new listener", () => {
+		const appEmitter = createEventEmitter<AppEvents>();
+		const [subscribe] = pipe(appEmitter, pick("userLogin"));
+		const logUserLogin = jest.fn();
+
+		subscribe("userLogin", jest.fn())();
+		subscribe("userLogin", logUserLogin);
+		appEmitter.emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(appEmitter.listenerCount()).toBe(1);
+	});
+});
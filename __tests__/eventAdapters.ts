@@ -0,0 +1,369 @@
+/* eslint-disable n/no-unsupported-features/node-builtins -- The tests run on a Node.js version with `CustomEvent` */
+import { EventEmitter } from "node:events";
+
+import { fromEventTarget, fromNodeEventEmitter, toEventTarget, toNodeEventEmitter } from "../src/eventAdapters";
+import { createEventEmitter, once, type EventDescription } from "../src/eventEmitter";
+
+type PlayerEvents = EventDescription<"play" | "pause", { position: number }> & EventDescription<"ended", Event>;
+
+// An event with a `detail` of its own, like the `UIEvent`s such as `MouseEvent`
+class ClickEvent extends Event {
+	readonly detail: number;
+
+	constructor(detail: number) {
+		super("click");
+		this.detail = detail;
+	}
+}
+
+describe("toEventTarget", () => {
+	it("should pass the data of the emitted events in the `detail` of `CustomEvent`s, or as is if it is an event", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const target = toEventTarget(emitter);
+		const onPlay = jest.fn(function (this: unknown, event: CustomEvent<{ position: number }>) {
+			expect(this).toBe(target);
+			expect(event).toBeInstanceOf(CustomEvent);
+			expect(event.type).toBe("play");
+			expect(event.detail).toEqual({ position: 1 });
+		});
+		const onEnded = { handleEvent: jest.fn() };
+		target.addEventListener("play", onPlay);
+		target.addEventListener("ended", onEnded);
+		const endedEvent = new Event("ended");
+
+		emitter.emit("play", { position: 1 });
+		emitter.emit("ended", endedEvent);
+
+		expect(onPlay).toHaveBeenCalledTimes(1);
+		expect(onEnded.handleEvent).toHaveBeenCalledWith(endedEvent);
+	});
+
+	it("should emit the dispatched events and pass them as is to the listeners", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const target = toEventTarget(emitter);
+		const logPause = jest.fn();
+		emitter.subscribe("pause", logPause);
+		const pauseEvents: Event[] = [];
+		target.addEventListener("pause", event => {
+			pauseEvents.push(event);
+			event.preventDefault();
+		});
+		const pauseEvent = new CustomEvent("pause", { detail: { position: 2 }, cancelable: true });
+
+		expect(target.dispatchEvent(pauseEvent)).toBe(false);
+		expect(target.dispatchEvent(new CustomEvent("pause", { detail: { position: 3 } }))).toBe(true);
+
+		expect(logPause.mock.calls).toEqual([
+			["pause", { position: 2 }],
+			["pause", { position: 3 }]
+		]);
+		expect(pauseEvents[0]).toBe(pauseEvent);
+	});
+
+	it("should pass new events to the listeners for the events emitted while dispatching another one", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const target = toEventTarget(emitter);
+		const pauseEvent = new CustomEvent("pause", { detail: { position: 2 } });
+		const positions: number[] = [];
+		target.addEventListener("pause", event => {
+			positions.push(event.detail.position);
+			if (event === pauseEvent) {
+				emitter.emit("pause", { position: 3 });
+			}
+		});
+
+		target.dispatchEvent(pauseEvent);
+
+		expect(positions).toEqual([2, 3]);
+	});
+
+	it("should only add a listener once, until it is removed", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const target = toEventTarget(emitter);
+		const onPlay = jest.fn();
+
+		target.addEventListener("play", onPlay);
+		target.addEventListener("play", onPlay, { capture: true });
+		target.addEventListener("play", null);
+		emitter.emit("play", { position: 1 });
+		target.removeEventListener("play", onPlay);
+		target.removeEventListener("pause", onPlay);
+		emitter.emit("play", { position: 2 });
+		target.addEventListener("play", onPlay, true);
+		emitter.emit("play", { position: 3 });
+
+		expect(onPlay.mock.calls.map(([event]) => event.detail.position)).toEqual([1, 3]);
+		expect(emitter.listenerCount("play")).toBe(1);
+	});
+
+	it("should remove the listeners added with the `once` option after their first call", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const target = toEventTarget(emitter);
+		const onPlay = jest.fn();
+		target.addEventListener("play", onPlay, { once: true });
+
+		emitter.emit("play", { position: 1 });
+		emitter.emit("play", { position: 2 });
+
+		expect(onPlay).toHaveBeenCalledTimes(1);
+		expect(emitter.listenerCount()).toBe(0);
+	});
+
+	it("should remove the listeners added with the `once` option after the first replayed payload", () => {
+		const emitter = createEventEmitter<PlayerEvents>({ sticky: { play: 2 } });
+		const target = toEventTarget(emitter);
+		const onPlay = jest.fn();
+		emitter.emit("play", { position: 1 });
+		emitter.emit("play", { position: 2 });
+
+		target.addEventListener("play", onPlay, { once: true });
+		emitter.emit("play", { position: 3 });
+
+		expect(onPlay.mock.calls.map(([event]) => event.detail.position)).toEqual([1]);
+		expect(emitter.listenerCount()).toBe(0);
+	});
+
+	it("should remove the listeners when their signal is aborted", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const target = toEventTarget(emitter);
+		const controller = new AbortController();
+		const onPlay = jest.fn();
+
+		target.addEventListener("play", onPlay, { signal: controller.signal });
+		target.removeEventListener("play", onPlay);
+		target.addEventListener("play", onPlay);
+		controller.abort();
+		target.addEventListener("pause", onPlay, { signal: controller.signal });
+		emitter.emit("play", { position: 1 });
+		emitter.emit("pause", { position: 2 });
+
+		expect(onPlay).toHaveBeenCalledTimes(1);
+		expect(emitter.eventNames()).toEqual(["play"]);
+	});
+});
+
+describe("toNodeEventEmitter", () => {
+	it("should call the listeners with the data of the events", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const nodeEmitter = toNodeEventEmitter(emitter);
+		const onPlay = jest.fn(function (this: unknown) {
+			expect(this).toBe(nodeEmitter);
+		});
+		const onPause = jest.fn();
+
+		expect(nodeEmitter.on("play", onPlay).addListener("pause", onPause)).toBe(nodeEmitter);
+		expect(nodeEmitter.emit("play", { position: 1 })).toBe(true);
+		emitter.emit("pause", { position: 2 });
+
+		expect(nodeEmitter.emit("ended", new Event("ended"))).toBe(false);
+		expect(onPlay).toHaveBeenCalledWith({ position: 1 });
+		expect(onPause).toHaveBeenCalledWith({ position: 2 });
+		expect(nodeEmitter.listenerCount("play")).toBe(1);
+		expect(nodeEmitter.eventNames()).toEqual(["play", "pause"]);
+	});
+
+	it("should call a listener added several times as many times, and remove the last time it was added", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const nodeEmitter = toNodeEventEmitter(emitter);
+		const onPlay = jest.fn();
+		const onPlayOnce = jest.fn();
+		nodeEmitter.on("play", onPlay).once("play", onPlayOnce).on("play", onPlay);
+
+		nodeEmitter.emit("play", { position: 1 });
+		nodeEmitter.off("play", onPlay).removeListener("pause", onPlay);
+		nodeEmitter.emit("play", { position: 2 });
+		nodeEmitter.removeListener("play", onPlay).off("play", onPlay);
+		nodeEmitter.emit("play", { position: 3 });
+
+		expect(onPlay).toHaveBeenCalledTimes(3);
+		expect(onPlayOnce).toHaveBeenCalledTimes(1);
+		expect(nodeEmitter.listenerCount("play")).toBe(0);
+	});
+
+	it("should only call the `once` listeners with the first replayed payload", () => {
+		const emitter = createEventEmitter<PlayerEvents>({ sticky: { play: 2 } });
+		const nodeEmitter = toNodeEventEmitter(emitter);
+		const onPlay = jest.fn();
+		emitter.emit("play", { position: 1 });
+		emitter.emit("play", { position: 2 });
+
+		nodeEmitter.once("play", onPlay);
+
+		expect(onPlay.mock.calls).toEqual([[{ position: 1 }]]);
+		expect(nodeEmitter.listenerCount("play")).toBe(0);
+	});
+
+	it("should remove all the listeners it added for an event or for all the events", () => {
+		const emitter = createEventEmitter<PlayerEvents>();
+		const nodeEmitter = toNodeEventEmitter(emitter);
+		const onPlay = jest.fn();
+		const logPlay = jest.fn();
+		nodeEmitter.on("play", onPlay).on("pause", jest.fn());
+
+		expect(nodeEmitter.removeAllListeners("play").removeAllListeners("ended").eventNames()).toEqual(["pause"]);
+		nodeEmitter.on("play", onPlay).off("play", onPlay).removeAllListeners();
+		expect(nodeEmitter.eventNames()).toEqual([]);
+
+		emitter.subscribe("play", logPlay);
+		emitter.subscribeAny(logPlay);
+		nodeEmitter.on("play", onPlay).removeAllListeners();
+
+		expect(nodeEmitter.emit("play", { position: 1 })).toBe(true);
+		expect(logPlay).toHaveBeenCalledTimes(2);
+		expect(onPlay).not.toHaveBeenCalled();
+		expect(emitter.listenerCount()).toBe(2);
+	});
+});
+
+describe("fromEventTarget", () => {
+	it("should pass the `detail` of `CustomEvent`s and the other events as is to the listeners", () => {
+		const target = new EventTarget();
+		const [subscribe] = fromEventTarget<PlayerEvents>(target);
+		const logEvent = jest.fn();
+		subscribe("play", logEvent, ({ position }) => position > 0);
+		subscribe("ended", logEvent);
+		const endedEvent = new Event("ended");
+
+		target.dispatchEvent(new CustomEvent("play", { detail: { position: 0 } }));
+		target.dispatchEvent(new CustomEvent("play", { detail: { position: 1 } }));
+		target.dispatchEvent(endedEvent);
+
+		expect(logEvent.mock.calls).toEqual([
+			["play", { position: 1 }],
+			["ended", endedEvent]
+		]);
+	});
+
+	it("should pass the events having a `detail` of their own as is to the listeners", () => {
+		const target = new EventTarget();
+		const [subscribe] = fromEventTarget<EventDescription<"click", ClickEvent>>(target);
+		const logClick = jest.fn();
+		subscribe("click", logClick);
+		const clickEvent = new ClickEvent(2);
+
+		target.dispatchEvent(clickEvent);
+
+		expect(logClick).toHaveBeenCalledWith("click", clickEvent);
+	});
+
+	it("should pass the events as is to the listeners where `CustomEvent` isn't available", () => {
+		const { CustomEvent } = globalThis;
+		const target = new EventTarget();
+		const [subscribe] = fromEventTarget<EventDescription<"click", ClickEvent>>(target);
+		const logClick = jest.fn();
+		subscribe("click", logClick);
+		const clickEvent = new ClickEvent(2);
+
+		Reflect.deleteProperty(globalThis, "CustomEvent");
+		try {
+			target.dispatchEvent(clickEvent);
+		} finally {
+			globalThis.CustomEvent = CustomEvent;
+		}
+
+		expect(logClick).toHaveBeenCalledWith("click", clickEvent);
+	});
+
+	it("should dispatch the emitted events to the target", () => {
+		const target = new EventTarget();
+		const { subscribe, emit } = fromEventTarget<PlayerEvents>(target);
+		const onPause = jest.fn();
+		const onEnded = jest.fn();
+		const logPause = jest.fn();
+		target.addEventListener("pause", onPause);
+		target.addEventListener("ended", onEnded);
+		subscribe("pause", logPause);
+		const endedEvent = new Event("ended");
+
+		emit("pause", { position: 2 });
+		emit("ended", endedEvent);
+
+		expect(onPause).toHaveBeenCalledWith(expect.objectContaining({ type: "pause", detail: { position: 2 } }));
+		expect(onEnded).toHaveBeenCalledWith(endedEvent);
+		expect(logPause).toHaveBeenCalledWith("pause", { position: 2 });
+	});
+
+	it("should only listen to the events of the target while they have listeners", () => {
+		const target = new EventTarget();
+		const addEventListener = jest.spyOn(target, "addEventListener");
+		const removeEventListener = jest.spyOn(target, "removeEventListener");
+		const [subscribe, emit, unsubscribeAll] = fromEventTarget<PlayerEvents>(target);
+		const controller = new AbortController();
+
+		const unsubscribe = subscribe("play", jest.fn());
+		subscribe("play", jest.fn(), { signal: controller.signal });
+		subscribe("pause", jest.fn());
+		expect(addEventListener.mock.calls.map(([type]) => type)).toEqual(["play", "pause"]);
+		expect(unsubscribe()).toBe(true);
+		expect(unsubscribe()).toBe(false);
+		expect(removeEventListener).not.toHaveBeenCalled();
+		controller.abort();
+		emit("play", { position: 1 });
+		expect(removeEventListener.mock.calls.map(([type]) => type)).toEqual(["play"]);
+		unsubscribeAll();
+
+		expect(removeEventListener.mock.calls.map(([type]) => type)).toEqual(["play", "pause"]);
+		subscribe("play", jest.fn(), { signal: controller.signal });
+		expect(addEventListener).toHaveBeenCalledTimes(2);
+	});
+
+	it("should apply the error policy to the throwing listeners", () => {
+		const target = new EventTarget();
+		const onError = jest.fn();
+		const [subscribe, emit] = fromEventTarget<PlayerEvents>(target, { onError });
+		const logPlay = jest.fn();
+		subscribe("play", () => {
+			throw new Error("Listener failed");
+		});
+		subscribe("play", logPlay);
+
+		emit("play", { position: 1 });
+
+		expect(onError).toHaveBeenCalledWith(
+			new Error("Listener failed"),
+			"play",
+			{ position: 1 },
+			expect.any(Function)
+		);
+		expect(logPlay).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("fromNodeEventEmitter", () => {
+	type JobEvents = EventDescription<"progress", number> & EventDescription<"done">;
+
+	it("should pass the first argument of the events to the listeners and emit the data as the only argument", () => {
+		// eslint-disable-next-line unicorn/prefer-event-target -- The adapted emitter is a Node.js `EventEmitter`
+		const nodeEmitter = new EventEmitter();
+		const [subscribe, emit] = fromNodeEventEmitter<JobEvents>(nodeEmitter);
+		const logProgress = jest.fn();
+		const onProgress = jest.fn();
+		subscribe("progress", logProgress);
+		nodeEmitter.on("progress", onProgress);
+
+		nodeEmitter.emit("progress", 50, "ignored");
+		emit("progress", 100);
+
+		expect(logProgress.mock.calls).toEqual([
+			["progress", 50],
+			["progress", 100]
+		]);
+		expect(onProgress.mock.calls).toEqual([[50, "ignored"], [100]]);
+	});
+
+	it("should only listen to the events of the emitter while they have listeners", async () => {
+		// eslint-disable-next-line unicorn/prefer-event-target -- The adapted emitter is a Node.js `EventEmitter`
+		const nodeEmitter = new EventEmitter();
+		const { subscribe, unsubscribeAll } = fromNodeEventEmitter<JobEvents>(nodeEmitter);
+
+		const donePromise = new Promise(resolve => once(subscribe)("done", resolve));
+		subscribe("progress", jest.fn());
+		expect(nodeEmitter.eventNames()).toEqual(["done", "progress"]);
+		nodeEmitter.emit("done");
+		await donePromise;
+		expect(nodeEmitter.eventNames()).toEqual(["progress"]);
+		unsubscribeAll("progress");
+
+		expect(nodeEmitter.eventNames()).toEqual([]);
+	});
+});
@@ -0,0 +1,226 @@
+import { MessageChannel, type MessagePort } from "node:worker_threads";
+import { createEventBridge, type BridgeMessage } from "../src/eventBridge";
+import { awaited, createEventEmitter, type EventDescription } from "../src/eventEmitter";
+
+type WorkerEvents = EventDescription<"job", { id: number }> &
+	EventDescription<"progress", { id: number; percent: number }> &
+	EventDescription<"done", { id: number }>;
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("createEventBridge", () => {
+	let openPorts: MessagePort[] = [];
+
+	// Open a channel whose ports are closed after the test
+	const openChannel = (): MessageChannel => {
+		const channel = new MessageChannel();
+		openPorts.push(channel.port1, channel.port2);
+		return channel;
+	};
+
+	afterEach(() => {
+		for (const port of openPorts) {
+			port.close();
+		}
+		openPorts = [];
+	});
+
+	it("should forward the events in both directions", async () => {
+		const { port1, port2 } = openChannel();
+		const main = createEventEmitter<WorkerEvents>();
+		const worker = createEventEmitter<WorkerEvents>();
+		createEventBridge(main, port1);
+		createEventBridge(worker, port2);
+		const jobPromise = awaited(worker.subscribe)("job");
+		const donePromise = awaited(main.subscribe)("done");
+
+		main.emit("job", { id: 1 });
+		await expect(jobPromise).resolves.toEqual({ id: 1 });
+		worker.emit("done", { id: 1 });
+
+		await expect(donePromise).resolves.toEqual({ id: 1 });
+	});
+
+	it("should only send and receive the configured events", async () => {
+		const { port1, port2 } = openChannel();
+		const main = createEventEmitter<WorkerEvents>();
+		const worker = createEventEmitter<WorkerEvents>();
+		const logMainEvent = jest.fn();
+		const logWorkerEvent = jest.fn();
+		main.subscribeAny(logMainEvent);
+		worker.subscribeAny(logWorkerEvent);
+		createEventBridge(main, port1, { send: ["job"], receive: ["done"] });
+		createEventBridge(worker, port2);
+
+		main.emit("job", { id: 1 });
+		main.emit("done", { id: 1 });
+		worker.emit("progress", { id: 1, percent: 50 });
+		worker.emit("done", { id: 2 });
+		await delay(20);
+
+		expect(logWorkerEvent.mock.calls).toEqual([
+			[{ eventName: "progress", data: { id: 1, percent: 50 } }],
+			[{ eventName: "done", data: { id: 2 } }],
+			[{ eventName: "job", data: { id: 1 } }]
+		]);
+		expect(logMainEvent.mock.calls).toEqual([
+			[{ eventName: "job", data: { id: 1 } }],
+			[{ eventName: "done", data: { id: 1 } }],
+			[{ eventName: "done", data: { id: 2 } }]
+		]);
+	});
+
+	it("should tag the messages with their origin and ignore the other messages of the port", async () => {
+		const { port1, port2 } = openChannel();
+		const main = createEventEmitter<WorkerEvents>();
+		const messages: unknown[] = [];
+		const logJob = jest.fn();
+		main.subscribe("job", logJob);
+		port2.on("message", message => messages.push(message));
+		createEventBridge(main, port1, { origin: "main" });
+
+		main.emit("done", { id: 1 });
+		port2.postMessage("Not a bridge message");
+		port2.postMessage({ type: "zohar:event", eventName: "job", data: { id: 1 } });
+		port2.postMessage(null);
+		await delay(20);
+
+		expect(messages).toEqual([
+			<BridgeMessage>{ type: "zohar:event", origin: "main", eventName: "done", data: { id: 1 } }
+		]);
+		expect(logJob).not.toHaveBeenCalled();
+	});
+
+	it("should not send back the received events", async () => {
+		const { port1, port2 } = openChannel();
+		const main = createEventEmitter<WorkerEvents>();
+		const worker = createEventEmitter<WorkerEvents>();
+		const logMainJob = jest.fn();
+		const logWorkerJob = jest.fn();
+		main.subscribe("job", logMainJob);
+		worker.subscribe("job", logWorkerJob);
+		createEventBridge(main, port1);
+		createEventBridge(worker, port2);
+
+		main.emit("job", { id: 1 });
+		await delay(20);
+
+		expect(logMainJob).toHaveBeenCalledTimes(1);
+		expect(logWorkerJob).toHaveBeenCalledTimes(1);
+	});
+
+	it("should relay the events between bridges and drop them when they come back to their origin", async () => {
+		const [firstToSecond, secondToThird, thirdToFirst] = [openChannel(), openChannel(), openChannel()];
+		const first = createEventEmitter<WorkerEvents>();
+		const second = createEventEmitter<WorkerEvents>();
+		const third = createEventEmitter<WorkerEvents>();
+		const logFirstJob = jest.fn();
+		const logSecondJob = jest.fn();
+		const logThirdJob = jest.fn();
+		first.subscribe("job", logFirstJob);
+		second.subscribe("job", logSecondJob);
+		third.subscribe("job", logThirdJob);
+		createEventBridge(first, firstToSecond.port1);
+		createEventBridge(second, firstToSecond.port2);
+		createEventBridge(second, secondToThird.port1);
+		createEventBridge(third, secondToThird.port2);
+
+		first.emit("job", { id: 1 });
+		await delay(20);
+
+		expect(logSecondJob).toHaveBeenCalledTimes(1);
+		expect(logThirdJob).toHaveBeenCalledTimes(1);
+
+		// Close the cycle, so that the events reach the other emitters over both paths and come back to their origin
+		createEventBridge(third, thirdToFirst.port1);
+		createEventBridge(first, thirdToFirst.port2);
+
+		first.emit("job", { id: 2 });
+		await delay(50);
+
+		expect(logFirstJob).toHaveBeenCalledTimes(2);
+		expect(logSecondJob).toHaveBeenCalledTimes(3);
+		expect(logThirdJob).toHaveBeenCalledTimes(3);
+	});
+
+	it("should tag the events emitted by the listeners of a received event with the local origin", async () => {
+		const { port1, port2 } = openChannel();
+		const channel = openChannel();
+		const main = createEventEmitter<WorkerEvents>();
+		const worker = createEventEmitter<WorkerEvents>();
+		const messages: unknown[] = [];
+		const logMainProgress = jest.fn();
+		channel.port2.on("message", message => messages.push(message));
+		main.subscribe("progress", logMainProgress);
+		createEventBridge(main, port1, { origin: "main" });
+		createEventBridge(worker, port2, { origin: "worker" });
+		createEventBridge(worker, channel.port1, { origin: "worker" });
+		worker.subscribe("job", (_, { id }) => {
+			worker.emit("progress", { id, percent: 0 });
+		});
+
+		main.emit("job", { id: 1 });
+		await delay(20);
+
+		expect(messages).toEqual([
+			{ type: "zohar:event", origin: "worker", eventName: "progress", data: { id: 1, percent: 0 } },
+			{ type: "zohar:event", origin: "main", eventName: "job", data: { id: 1 } }
+		]);
+		expect(logMainProgress).toHaveBeenCalledWith("progress", { id: 1, percent: 0 });
+	});
+
+	it("should stop forwarding the events once disconnected", async () => {
+		const { port1, port2 } = openChannel();
+		const main = createEventEmitter<WorkerEvents>();
+		const worker = createEventEmitter<WorkerEvents>();
+		const logWorkerJob = jest.fn();
+		const logMainDone = jest.fn();
+		worker.subscribe("job", logWorkerJob);
+		main.subscribe("done", logMainDone);
+		const disconnect = createEventBridge(main, port1, { send: ["job"] });
+		createEventBridge(worker, port2);
+
+		expect(disconnect()).toBe(true);
+		expect(disconnect()).toBe(false);
+		main.emit("job", { id: 1 });
+		worker.emit("done", { id: 1 });
+		await delay(20);
+
+		expect(logWorkerJob).not.toHaveBeenCalled();
+		expect(logMainDone).not.toHaveBeenCalled();
+		expect(main.listenerCount()).toBe(1);
+	});
+
+	it("should serialize the messages with the serializer", async () => {
+		const { port1, port2 } = openChannel();
+		const main = createEventEmitter<WorkerEvents>();
+		const worker = createEventEmitter<WorkerEvents>();
+		const serializer = {
+			serialize: (message: BridgeMessage): string => JSON.stringify(message),
+			deserialize: (payload: unknown): unknown => JSON.parse(<string>payload)
+		};
+		const messages: unknown[] = [];
+		port2.on("message", message => messages.push(message));
+		createEventBridge(main, port1, { serializer, origin: "main" });
+		createEventBridge(worker, port2, { serializer });
+		const jobPromise = awaited(worker.subscribe)("job");
+
+		main.emit("job", { id: 1 });
+
+		await expect(jobPromise).resolves.toEqual({ id: 1 });
+		expect(messages).toEqual(['{"type":"zohar:event","origin":"main","eventName":"job","data":{"id":1}}']);
+	});
+
+	it("should start the message ports which need it", () => {
+		const port = {
+			postMessage: jest.fn(),
+			addEventListener: jest.fn(),
+			removeEventListener: jest.fn(),
+			start: jest.fn()
+		};
+
+		createEventBridge(createEventEmitter<WorkerEvents>(), port);
+
+		expect(port.start).toHaveBeenCalledTimes(1);
+	});
+});
@@ -1,11 +1,17 @@
 import {
 	awaited,
+	awaitedAny,
 	createEventEmitter,
+	MaxListenersExceededWarning,
 	once,
+	TimeoutError,
 	type EmitEvent,
 	type EventDescription,
+	type EventEmitter,
+	type EventEmitterOptions,
 	type SubscribeEvent,
-	type UnsubscribeAllEvents
+	type UnsubscribeAllEvents,
+	type UnsubscribeEvent
 } from "../src/eventEmitter";
 
 describe("createEventEmitter", () => {
@@ -165,6 +171,43 @@ describe("createEventEmitter", () => {
 
 		expect(logUserLogin).toHaveBeenCalledTimes(1);
 	});
+	it("should unsubscribe a `once` listener before the event is triggered", () => {
+		const logUserLogin = jest.fn();
+		const unsubscribe = once(subscribe)("userLogin", logUserLogin);
+
+		expect(unsubscribe()).toBe(true);
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+
+		expect(logUserLogin).not.toHaveBeenCalled();
+		expect(unsubscribe()).toBe(false);
+	});
+	it("should trigger a `once` listener for the first event matching the predicate", () => {
+		const logUserLogin = jest.fn();
+		const unsubscribe = once(subscribe)("userLogin", logUserLogin, data => data.userId === "user2");
+
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+		emit("userLogin", { userId: "user2", timestamp: new Date() });
+		emit("userLogin", { userId: "user2", timestamp: new Date() });
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user2", timestamp: expect.any(Date) });
+		expect(unsubscribe()).toBe(false);
+	});
+	it("should trigger a `once` listener the given number of times", () => {
+		const logUserLogin = jest.fn();
+		const unsubscribe = once(subscribe)("userLogin", logUserLogin, {
+			count: 2,
+			predicate: data => data.userId !== "user1"
+		});
+
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+		emit("userLogin", { userId: "user2", timestamp: new Date() });
+		emit("userLogin", { userId: "user3", timestamp: new Date() });
+		emit("userLogin", { userId: "user4", timestamp: new Date() });
+
+		expect(logUserLogin.mock.calls.map(([, data]) => data.userId)).toEqual(["user2", "user3"]);
+		expect(unsubscribe()).toBe(false);
+	});
 	it("should resolve the promise with event data using `awaited`", async () => {
 		const awaitedSubscribe = awaited(subscribe);
 
@@ -194,3 +237,1634 @@ describe("createEventEmitter", () => {
 		expect(isStillPending).toBe(true);
 	});
 });
+
+const failingListener = (): void => {
+	throw new Error("Listener failed");
+};
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+const record =
+	(calls: string[], name: string): (() => void) =>
+	() => {
+		calls.push(name);
+	};
+
+describe("createEventEmitter error policy", () => {
+	type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string; timestamp: Date }>;
+
+	it("should propagate listener errors and skip the remaining listeners by default", () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", failingListener);
+		subscribe("userLogin", logUserLogin);
+
+		expect(() => emit("userLogin", { userId: "user1", timestamp: new Date() })).toThrow("Listener failed");
+		expect(logUserLogin).not.toHaveBeenCalled();
+	});
+
+	it("should isolate failing listeners and report them to `onError`", () => {
+		const onError = jest.fn();
+		const [subscribe, emit] = createEventEmitter<AppEvents>({ onError });
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", failingListener);
+		subscribe("userLogin", logUserLogin);
+
+		const data = { userId: "user1", timestamp: new Date() };
+		expect(() => emit("userLogin", data)).not.toThrow();
+
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", data);
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), "userLogin", data, failingListener);
+	});
+
+	it("should isolate failing predicates", () => {
+		const onError = jest.fn();
+		const [subscribe, emit] = createEventEmitter<AppEvents>({ onError });
+		const logUserLogin = jest.fn();
+		const logUserLogin2 = jest.fn();
+		subscribe("userLogin", logUserLogin, () => {
+			throw new Error("Predicate failed");
+		});
+		subscribe("userLogin", logUserLogin2);
+
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+
+		expect(logUserLogin).not.toHaveBeenCalled();
+		expect(logUserLogin2).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(
+			expect.objectContaining({ message: "Predicate failed" }),
+			"userLogin",
+			expect.anything(),
+			logUserLogin
+		);
+	});
+
+	it("should report the rejections of async listeners to `onError` once they occur", async () => {
+		const onError = jest.fn();
+		const [subscribe, emit] = createEventEmitter<AppEvents>({ errorPolicy: "aggregate", onError });
+		const error = new Error("Analytics is down");
+		const failingAsyncListener = jest.fn(async () => {
+			throw error;
+		});
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", failingAsyncListener);
+		subscribe("userLogin", logUserLogin);
+
+		const data = { userId: "user1", timestamp: new Date() };
+		expect(() => emit("userLogin", data)).not.toThrow();
+		expect(onError).not.toHaveBeenCalled();
+		await Promise.resolve();
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledWith(error, "userLogin", data, failingAsyncListener);
+	});
+
+	it("should silently isolate failing listeners with the `isolate` policy and no `onError`", () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>({ errorPolicy: "isolate" });
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", failingListener);
+		subscribe("userLogin", logUserLogin);
+
+		expect(() => emit("userLogin", { userId: "user1", timestamp: new Date() })).not.toThrow();
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+	});
+
+	it("should throw an `AggregateError` after all listeners have run with the `aggregate` policy", () => {
+		const onError = jest.fn();
+		const [subscribe, emit] = createEventEmitter<AppEvents>({ errorPolicy: "aggregate", onError });
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", failingListener);
+		subscribe("userLogin", logUserLogin);
+		subscribe("userLogin", failingListener);
+
+		let thrown: unknown;
+		try {
+			emit("userLogin", { userId: "user1", timestamp: new Date() });
+		} catch (error) {
+			thrown = error;
+		}
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(onError).toHaveBeenCalledTimes(2);
+		expect(thrown).toBeInstanceOf(AggregateError);
+		expect((thrown as AggregateError).errors).toHaveLength(2);
+	});
+
+	it("should not throw with the `aggregate` policy when no listener fails", () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>({ errorPolicy: "aggregate" });
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", logUserLogin);
+
+		expect(() => emit("userLogin", { userId: "user1", timestamp: new Date() })).not.toThrow();
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("createEventEmitter async emit", () => {
+	type DocumentEvents = EventDescription<"save" | "close", { documentId: string }>;
+
+	it("should expose the emitter functions both by position and by name", () => {
+		const emitter = createEventEmitter<DocumentEvents>();
+		const [subscribe, emit, unsubscribeAll] = emitter;
+
+		expect(emitter.subscribe).toBe(subscribe);
+		expect(emitter.emit).toBe(emit);
+		expect(emitter.unsubscribeAll).toBe(unsubscribeAll);
+	});
+
+	it("should resolve `emitAsync` once every listener promise has settled", async () => {
+		const { subscribe, emitAsync } = createEventEmitter<DocumentEvents>();
+		const calls: string[] = [];
+		subscribe("save", async () => {
+			await delay(20);
+			calls.push("slow");
+		});
+		subscribe("save", async () => {
+			await delay(5);
+			calls.push("fast");
+		});
+		subscribe("save", () => {
+			calls.push("sync");
+		});
+
+		await emitAsync("save", { documentId: "doc1" });
+
+		expect(calls).toEqual(["sync", "fast", "slow"]);
+	});
+
+	it("should resolve `emitAsync` and `emitSerial` when there are no listeners", async () => {
+		const { emitAsync, emitSerial } = createEventEmitter<DocumentEvents>();
+
+		await expect(emitAsync("save", { documentId: "doc1" })).resolves.toBeUndefined();
+		await expect(emitSerial("save", { documentId: "doc1" })).resolves.toBeUndefined();
+	});
+
+	it("should respect predicates in `emitAsync`", async () => {
+		const { subscribe, emitAsync } = createEventEmitter<DocumentEvents>();
+		const saveDocument = jest.fn();
+		subscribe("save", saveDocument, data => data.documentId === "doc2");
+
+		await emitAsync("save", { documentId: "doc1" });
+
+		expect(saveDocument).not.toHaveBeenCalled();
+	});
+
+	it("should reject `emitAsync` with the first failure by default", async () => {
+		const { subscribe, emitAsync } = createEventEmitter<DocumentEvents>();
+		const saveDocument = jest.fn();
+		subscribe("save", async () => {
+			throw new Error("Save failed");
+		});
+		subscribe("save", saveDocument);
+
+		await expect(emitAsync("save", { documentId: "doc1" })).rejects.toThrow("Save failed");
+		expect(saveDocument).toHaveBeenCalledTimes(1);
+	});
+
+	it("should report rejected listeners to `onError` in `emitAsync`", async () => {
+		const onError = jest.fn();
+		const { subscribe, emitAsync } = createEventEmitter<DocumentEvents>({ onError });
+		const listener = jest.fn(async () => {
+			throw new Error("Save failed");
+		});
+		subscribe("save", listener);
+		subscribe("save", failingListener);
+
+		await expect(emitAsync("save", { documentId: "doc1" })).resolves.toBeUndefined();
+		expect(onError).toHaveBeenCalledTimes(2);
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), "save", { documentId: "doc1" }, listener);
+	});
+
+	it("should reject `emitAsync` with an `AggregateError` with the `aggregate` policy", async () => {
+		const { subscribe, emitAsync } = createEventEmitter<DocumentEvents>({ errorPolicy: "aggregate" });
+		subscribe("save", async () => {
+			throw new Error("Save failed");
+		});
+		subscribe("save", failingListener);
+
+		await expect(emitAsync("save", { documentId: "doc1" })).rejects.toBeInstanceOf(AggregateError);
+	});
+
+	it("should await listeners one at a time in subscription order with `emitSerial`", async () => {
+		const { subscribe, emitSerial } = createEventEmitter<DocumentEvents>();
+		const calls: string[] = [];
+		subscribe("save", async () => {
+			calls.push("first:start");
+			await delay(20);
+			calls.push("first:end");
+		});
+		subscribe("save", async () => {
+			calls.push("second:start");
+			await delay(5);
+			calls.push("second:end");
+		});
+
+		await emitSerial("save", { documentId: "doc1" });
+
+		expect(calls).toEqual(["first:start", "first:end", "second:start", "second:end"]);
+	});
+
+	it("should stop `emitSerial` at the first failure by default", async () => {
+		const { subscribe, emitSerial } = createEventEmitter<DocumentEvents>();
+		const saveDocument = jest.fn();
+		subscribe("save", async () => {
+			throw new Error("Save failed");
+		});
+		subscribe("save", saveDocument);
+
+		await expect(emitSerial("save", { documentId: "doc1" })).rejects.toThrow("Save failed");
+		expect(saveDocument).not.toHaveBeenCalled();
+	});
+
+	it("should continue `emitSerial` after failures with the `isolate` policy", async () => {
+		const onError = jest.fn();
+		const { subscribe, emitSerial } = createEventEmitter<DocumentEvents>({ onError });
+		const saveDocument = jest.fn();
+		subscribe("save", failingListener);
+		subscribe("save", saveDocument);
+
+		await emitSerial("save", { documentId: "doc1" });
+
+		expect(onError).toHaveBeenCalledTimes(1);
+		expect(saveDocument).toHaveBeenCalledTimes(1);
+	});
+
+	it("should wait for a `once` listener promise", async () => {
+		const { subscribe, emitAsync } = createEventEmitter<DocumentEvents>();
+		const calls: string[] = [];
+		once(subscribe)("save", async () => {
+			await delay(5);
+			calls.push("once");
+		});
+
+		await emitAsync("save", { documentId: "doc1" });
+
+		expect(calls).toEqual(["once"]);
+	});
+});
+
+describe("createEventEmitter catch-all subscription", () => {
+	type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string; timestamp: Date }> &
+		EventDescription<"error", Error>;
+
+	it("should call a catch-all listener for every emitted event", () => {
+		const { subscribeAny, emit } = createEventEmitter<AppEvents>();
+		const logEvent = jest.fn();
+		subscribeAny(logEvent);
+
+		const data = { userId: "user1", timestamp: new Date() };
+		const error = new Error("Failure");
+		emit("userLogin", data);
+		emit("error", error);
+
+		expect(logEvent).toHaveBeenNthCalledWith(1, { eventName: "userLogin", data });
+		expect(logEvent).toHaveBeenNthCalledWith(2, { eventName: "error", data: error });
+	});
+
+	it("should call catch-all listeners after the listeners of the emitted event", () => {
+		const { subscribe, subscribeAny, emit } = createEventEmitter<AppEvents>();
+		const calls: string[] = [];
+		subscribeAny(() => {
+			calls.push("any");
+		});
+		subscribe("userLogin", () => {
+			calls.push("userLogin");
+		});
+
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+
+		expect(calls).toEqual(["userLogin", "any"]);
+	});
+
+	it("should call a catch-all listener only if the predicate returns true", () => {
+		const { subscribeAny, emit } = createEventEmitter<AppEvents>();
+		const logEvent = jest.fn();
+		subscribeAny(logEvent, event => event.eventName !== "error");
+
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+		emit("error", new Error("Failure"));
+
+		expect(logEvent).toHaveBeenCalledTimes(1);
+		expect(logEvent).toHaveBeenCalledWith(expect.objectContaining({ eventName: "userLogin" }));
+	});
+
+	it("should not call a catch-all listener after it has been unsubscribed", () => {
+		const { subscribeAny, emit } = createEventEmitter<AppEvents>();
+		const logEvent = jest.fn();
+		const unsubscribe = subscribeAny(logEvent);
+
+		expect(unsubscribe()).toBe(true);
+		expect(unsubscribe()).toBe(false);
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+
+		expect(logEvent).not.toHaveBeenCalled();
+	});
+
+	it("should remove catch-all listeners with `unsubscribeAll` for all events only", () => {
+		const { subscribeAny, emit, unsubscribeAll } = createEventEmitter<AppEvents>();
+		const logEvent = jest.fn();
+		subscribeAny(logEvent);
+
+		unsubscribeAll("userLogin");
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+		expect(logEvent).toHaveBeenCalledTimes(1);
+
+		unsubscribeAll();
+		emit("userLogin", { userId: "user1", timestamp: new Date() });
+		expect(logEvent).toHaveBeenCalledTimes(1);
+	});
+
+	it("should report the failing catch-all listener to `onError`", async () => {
+		const onError = jest.fn();
+		const { subscribeAny, emit, emitAsync } = createEventEmitter<AppEvents>({ onError });
+		subscribeAny(failingListener);
+
+		const data = { userId: "user1", timestamp: new Date() };
+		emit("userLogin", data);
+		await emitAsync("userLogin", data);
+
+		expect(onError).toHaveBeenCalledTimes(2);
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), "userLogin", data, failingListener);
+	});
+
+	it("should await catch-all listeners with `emitSerial`", async () => {
+		const { subscribeAny, emitSerial } = createEventEmitter<AppEvents>();
+		const calls: string[] = [];
+		subscribeAny(async ({ eventName }) => {
+			await delay(5);
+			calls.push(eventName);
+		});
+
+		await emitSerial("userLogout", { userId: "user1", timestamp: new Date() });
+
+		expect(calls).toEqual(["userLogout"]);
+	});
+});
+
+describe("createEventEmitter pattern subscription", () => {
+	type ChatEvents = EventDescription<"chat:message:received", { userId: string; text: string }> &
+		EventDescription<"chat:user:joined" | "chat:user:left", { userId: string }> &
+		EventDescription<"system:ready", void>;
+
+	it("should call a pattern listener for the matching events only", () => {
+		const { subscribePattern, emit } = createEventEmitter<ChatEvents>();
+		const logUserEvent = jest.fn();
+		subscribePattern("chat:user:*", logUserEvent);
+
+		emit("chat:user:joined", { userId: "user1" });
+		emit("chat:user:left", { userId: "user1" });
+		emit("chat:message:received", { userId: "user1", text: "Hi" });
+		emit("system:ready", undefined);
+
+		expect(logUserEvent).toHaveBeenCalledTimes(2);
+		expect(logUserEvent).toHaveBeenNthCalledWith(1, "chat:user:joined", { userId: "user1" });
+		expect(logUserEvent).toHaveBeenNthCalledWith(2, "chat:user:left", { userId: "user1" });
+	});
+
+	it("should type the listener with the matching events", () => {
+		const { subscribePattern, emit } = createEventEmitter<ChatEvents>();
+		const userIds: string[] = [];
+		subscribePattern("chat:**", (eventName, data) => {
+			userIds.push(`${eventName}:${data.userId}`);
+		});
+
+		emit("chat:message:received", { userId: "user1", text: "Hi" });
+		emit("chat:user:joined", { userId: "user2" });
+
+		expect(userIds).toEqual(["chat:message:received:user1", "chat:user:joined:user2"]);
+	});
+
+	it("should call pattern listeners in subscription order along with plain listeners", () => {
+		const { subscribe, subscribePattern, subscribeAny, emit } = createEventEmitter<ChatEvents>();
+		const calls: string[] = [];
+		subscribeAny(() => {
+			calls.push("any");
+		});
+		subscribe("chat:user:joined", () => {
+			calls.push("first");
+		});
+		subscribePattern("chat:**", () => {
+			calls.push("second");
+		});
+		subscribe("chat:user:joined", () => {
+			calls.push("third");
+		});
+
+		emit("chat:user:joined", { userId: "user1" });
+
+		expect(calls).toEqual(["first", "second", "third", "any"]);
+	});
+
+	it("should call a pattern listener only if the predicate returns true", () => {
+		const { subscribePattern, emit } = createEventEmitter<ChatEvents>();
+		const logUserEvent = jest.fn();
+		subscribePattern("chat:user:*", logUserEvent, data => data.userId === "user2");
+
+		emit("chat:user:joined", { userId: "user1" });
+		emit("chat:user:joined", { userId: "user2" });
+
+		expect(logUserEvent).toHaveBeenCalledTimes(1);
+		expect(logUserEvent).toHaveBeenCalledWith("chat:user:joined", { userId: "user2" });
+	});
+
+	it("should unsubscribe pattern listeners like plain listeners", () => {
+		const { subscribePattern, emit, unsubscribeAll } = createEventEmitter<ChatEvents>();
+		const logUserEvent = jest.fn();
+		const logChatEvent = jest.fn();
+		const unsubscribe = subscribePattern("chat:user:*", logUserEvent);
+		subscribePattern("chat:**", logChatEvent);
+
+		expect(unsubscribe()).toBe(true);
+		expect(unsubscribe()).toBe(false);
+		unsubscribeAll("chat:user:joined");
+		emit("chat:user:joined", { userId: "user1" });
+
+		expect(logUserEvent).not.toHaveBeenCalled();
+		expect(logChatEvent).toHaveBeenCalledTimes(1);
+
+		unsubscribeAll();
+		emit("chat:user:joined", { userId: "user1" });
+
+		expect(logChatEvent).toHaveBeenCalledTimes(1);
+	});
+
+	it("should wait for pattern listeners with `emitAsync` and `emitSerial`", async () => {
+		const { subscribePattern, emitAsync, emitSerial } = createEventEmitter<ChatEvents>();
+		const calls: string[] = [];
+		subscribePattern("chat:*:joined", async eventName => {
+			await delay(5);
+			calls.push(eventName);
+		});
+
+		await emitAsync("chat:user:joined", { userId: "user1" });
+		await emitSerial("chat:user:joined", { userId: "user1" });
+
+		expect(calls).toEqual(["chat:user:joined", "chat:user:joined"]);
+	});
+
+	it("should accept any pattern for generic event descriptions", () => {
+		const { subscribePattern, emit } = createEventEmitter();
+		const logEvent = jest.fn();
+		subscribePattern("chat:*", logEvent);
+
+		emit("chat:joined", { any: "data" });
+
+		expect(logEvent).toHaveBeenCalledWith("chat:joined", { any: "data" });
+	});
+});
+
+describe("createEventEmitter unsubscription during emit", () => {
+	type AppEvents = EventDescription<"userLogin", { userId: string }>;
+
+	it("should not call listeners unsubscribed by a previous listener", async () => {
+		const { subscribe, emit, emitAsync, emitSerial } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		let unsubscribe: UnsubscribeEvent | undefined;
+		subscribe("userLogin", () => {
+			unsubscribe?.();
+		});
+
+		unsubscribe = subscribe("userLogin", logUserLogin);
+		emit("userLogin", { userId: "user1" });
+		unsubscribe = subscribe("userLogin", logUserLogin);
+		await emitAsync("userLogin", { userId: "user1" });
+		unsubscribe = subscribe("userLogin", logUserLogin);
+		await emitSerial("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).not.toHaveBeenCalled();
+	});
+
+	it("should not call the remaining listeners after `unsubscribeAll`", () => {
+		const { subscribe, emit, unsubscribeAll } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", () => unsubscribeAll("userLogin"));
+		subscribe("userLogin", logUserLogin);
+		emit("userLogin", { userId: "user1" });
+
+		subscribe("userLogin", () => unsubscribeAll());
+		subscribe("userLogin", logUserLogin);
+		emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).not.toHaveBeenCalled();
+	});
+});
+
+describe("createEventEmitter delivery", () => {
+	type AppEvents = EventDescription<"userLogin" | "userLogout" | "sessionStart", { userId: string }>;
+
+	// Log the delivered events, emitting `sessionStart` and `userLogout` from the first `userLogin` listener
+	const followUp = ({ subscribe, emit }: EventEmitter<AppEvents>): string[] => {
+		const calls: string[] = [];
+		subscribe("userLogin", (eventName, data) => {
+			calls.push(`first ${eventName}`);
+			emit("sessionStart", data);
+			emit("userLogout", data);
+		});
+		subscribe("userLogin", eventName => {
+			calls.push(`second ${eventName}`);
+		});
+		subscribe("sessionStart", eventName => {
+			calls.push(eventName);
+		});
+		subscribe("userLogout", eventName => {
+			calls.push(eventName);
+		});
+		return calls;
+	};
+
+	it("should only call the listeners subscribed before the event is delivered", () => {
+		const { subscribe, emit } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", () => {
+			subscribe("userLogin", logUserLogin);
+		});
+
+		emit("userLogin", { userId: "user1" });
+		expect(logUserLogin).not.toHaveBeenCalled();
+
+		emit("userLogin", { userId: "user2" });
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+	});
+
+	it("should deliver the nested events depth-first by default", () => {
+		const emitter = createEventEmitter<AppEvents>();
+		const calls = followUp(emitter);
+
+		emitter.emit("userLogin", { userId: "user1" });
+
+		expect(calls).toEqual(["first userLogin", "sessionStart", "userLogout", "second userLogin"]);
+	});
+
+	it("should deliver the nested events once the current event is delivered with the `queued` delivery", () => {
+		const emitter = createEventEmitter<AppEvents>({ delivery: "queued" });
+		const calls = followUp(emitter);
+
+		emitter.emit("userLogin", { userId: "user1" });
+		expect(calls).toEqual(["first userLogin", "second userLogin", "sessionStart", "userLogout"]);
+
+		emitter.emit("userLogout", { userId: "user1" });
+		expect(calls).toHaveLength(5);
+	});
+
+	it("should deliver the events in a microtask with the `microtask` delivery", async () => {
+		const emitter = createEventEmitter<AppEvents>({ delivery: "microtask" });
+		const calls = followUp(emitter);
+
+		emitter.emit("userLogin", { userId: "user1" });
+		emitter.emit("userLogout", { userId: "user1" });
+		expect(calls).toEqual([]);
+
+		await Promise.resolve();
+		expect(calls).toEqual(["first userLogin", "second userLogin", "userLogout", "sessionStart", "userLogout"]);
+	});
+
+	it("should deliver cancelable events right away, followed by the queued events", async () => {
+		const queuedEmitter = createEventEmitter<AppEvents>({ delivery: "queued" });
+		const queuedCalls = followUp(queuedEmitter);
+		queuedEmitter.subscribe("sessionStart", (_, data) => {
+			queuedEmitter.emitCancelable("userLogout", data);
+		});
+		const microtaskEmitter = createEventEmitter<AppEvents>({ delivery: "microtask" });
+		const microtaskCalls = followUp(microtaskEmitter);
+
+		queuedEmitter.emitCancelable("userLogin", { userId: "user1" });
+		microtaskEmitter.emit("userLogout", { userId: "user1" });
+		microtaskEmitter.emitCancelable("userLogin", { userId: "user1" });
+		expect(microtaskCalls).toHaveLength(4);
+		await Promise.resolve();
+
+		expect(queuedCalls).toEqual([
+			"first userLogin",
+			"second userLogin",
+			"sessionStart",
+			"userLogout",
+			"userLogout"
+		]);
+		expect(microtaskCalls).toEqual([
+			"first userLogin",
+			"second userLogin",
+			"sessionStart",
+			"userLogout",
+			"userLogout"
+		]);
+	});
+
+	it("should deliver the nested events once the listeners have settled with `emitAsync` and the `queued` delivery", async () => {
+		const emitter = createEventEmitter<AppEvents>({ delivery: "queued" });
+		const calls = followUp(emitter);
+
+		await emitter.emitAsync("userLogin", { userId: "user1" });
+		expect(calls).toEqual(["first userLogin", "second userLogin", "sessionStart", "userLogout"]);
+
+		calls.length = 0;
+		emitter.subscribe("userLogout", async eventName => {
+			await Promise.resolve();
+			calls.push(`async ${eventName}`);
+			emitter.emit("sessionStart", { userId: "user1" });
+		});
+		await emitter.emitAsync("userLogout", { userId: "user1" });
+		expect(calls).toEqual(["userLogout", "async userLogout", "sessionStart"]);
+	});
+
+	it("should deliver the nested events once the listeners have settled with `emitSerial` and the `queued` delivery", async () => {
+		const emitter = createEventEmitter<AppEvents>({ delivery: "queued", onError: jest.fn() });
+		const calls = followUp(emitter);
+		emitter.subscribe("userLogin", async (_, data) => {
+			emitter.emit("userLogout", data);
+			throw new Error("Analytics is down");
+		});
+
+		await emitter.emitSerial("userLogin", { userId: "user1" });
+
+		expect(calls).toEqual(["first userLogin", "second userLogin", "sessionStart", "userLogout", "userLogout"]);
+	});
+
+	it("should drop the nested events of `emitSerial` when a listener throws with the `queued` delivery", async () => {
+		const emitter = createEventEmitter<AppEvents>({ delivery: "queued" });
+		const calls = followUp(emitter);
+		emitter.subscribe("userLogin", async () => {
+			throw new Error("Analytics is down");
+		});
+
+		await expect(emitter.emitSerial("userLogin", { userId: "user1" })).rejects.toThrow("Analytics is down");
+		emitter.emit("userLogout", { userId: "user1" });
+
+		expect(calls).toEqual(["first userLogin", "second userLogin", "userLogout"]);
+	});
+
+	it("should pass the errors thrown in the microtask to `onUnhandledError` and deliver the other events", async () => {
+		const onUnhandledError = jest.fn();
+		const emitter = createEventEmitter<AppEvents>({ delivery: "microtask", onUnhandledError });
+		const calls = followUp(emitter);
+		const error = new Error("Session store is down");
+		emitter.subscribe("sessionStart", () => {
+			throw error;
+		});
+
+		emitter.emit("userLogin", { userId: "user1" });
+		await Promise.resolve();
+
+		expect(onUnhandledError).toHaveBeenCalledWith(error, "sessionStart");
+		expect(calls).toEqual(["first userLogin", "second userLogin", "sessionStart", "userLogout"]);
+	});
+
+	it("should drop the queued events when a listener throws", () => {
+		const emitter = createEventEmitter<AppEvents>({ delivery: "queued" });
+		const calls = followUp(emitter);
+		emitter.subscribe(
+			"sessionStart",
+			jest.fn().mockImplementationOnce(() => {
+				throw new Error("Session store is down");
+			})
+		);
+
+		expect(() => emitter.emit("userLogin", { userId: "user1" })).toThrow("Session store is down");
+		emitter.emit("userLogin", { userId: "user2" });
+
+		expect(calls).toEqual([
+			"first userLogin",
+			"second userLogin",
+			"sessionStart",
+			"first userLogin",
+			"second userLogin",
+			"sessionStart",
+			"userLogout"
+		]);
+	});
+});
+
+describe("createEventEmitter listener priority", () => {
+	type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string }>;
+
+	it("should call listeners with a higher priority first", () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>();
+		const calls: string[] = [];
+		subscribe("userLogin", record(calls, "ui"));
+		subscribe("userLogin", record(calls, "auth"), { priority: 10 });
+		subscribe("userLogin", record(calls, "analytics"), { priority: -1 });
+		subscribe("userLogin", record(calls, "validation"), { priority: 10 });
+
+		emit("userLogin", { userId: "user1" });
+
+		expect(calls).toEqual(["auth", "validation", "ui", "analytics"]);
+	});
+
+	it("should accept a predicate in the subscription options", () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", logUserLogin, { predicate: data => data.userId === "user2", priority: 1 });
+
+		emit("userLogin", { userId: "user1" });
+		emit("userLogin", { userId: "user2" });
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user2" });
+	});
+
+	it("should order pattern and catch-all listeners by priority", () => {
+		const { subscribe, subscribeAny, subscribePattern, emit } = createEventEmitter<AppEvents>();
+		const calls: string[] = [];
+		subscribe("userLogin", record(calls, "plain"));
+		subscribeAny(record(calls, "any"), { priority: 5 });
+		subscribePattern("user*", record(calls, "pattern"));
+		subscribePattern("*", record(calls, "pattern:high"), { priority: 5 });
+		subscribeAny(record(calls, "any:filtered"), { predicate: ({ eventName }) => eventName === "userLogout" });
+
+		emit("userLogin", { userId: "user1" });
+
+		expect(calls).toEqual(["pattern:high", "any", "plain"]);
+	});
+
+	it("should apply priorities to `once` and `awaited` subscriptions", async () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>();
+		const calls: string[] = [];
+		subscribe("userLogin", record(calls, "ui"));
+		once(subscribe)("userLogin", record(calls, "once"), { priority: 1 });
+		const loginPromise = awaited(subscribe)("userLogin", { priority: 2 }).then(record(calls, "awaited"));
+
+		emit("userLogin", { userId: "user1" });
+		await loginPromise;
+
+		expect(calls).toEqual(["once", "ui", "awaited"]);
+	});
+
+	it("should await listeners by priority with `emitSerial`", async () => {
+		const { subscribe, emitSerial } = createEventEmitter<AppEvents>();
+		const calls: string[] = [];
+		subscribe("userLogin", async () => {
+			await delay(5);
+			calls.push("ui");
+		});
+		subscribe(
+			"userLogin",
+			async () => {
+				await delay(10);
+				calls.push("auth");
+			},
+			{ priority: 1 }
+		);
+
+		await emitSerial("userLogin", { userId: "user1" });
+
+		expect(calls).toEqual(["auth", "ui"]);
+	});
+});
+
+describe("createEventEmitter cancelable events", () => {
+	type NavigationEvents = EventDescription<"beforeNavigate", { url: string }>;
+
+	it("should report that the event was not canceled", () => {
+		const { subscribe, emitCancelable } = createEventEmitter<NavigationEvents>();
+		const logNavigation = jest.fn();
+		subscribe("beforeNavigate", logNavigation);
+
+		const result = emitCancelable("beforeNavigate", { url: "/home" });
+
+		expect(result).toEqual({ defaultPrevented: false, propagationStopped: false });
+		expect(logNavigation).toHaveBeenCalledWith("beforeNavigate", { url: "/home" }, expect.any(Object));
+	});
+
+	it("should report that a listener canceled the event and still call the remaining listeners", () => {
+		const { subscribe, emitCancelable } = createEventEmitter<NavigationEvents>();
+		const logNavigation = jest.fn();
+		subscribe("beforeNavigate", (_, data, control) => {
+			if (data.url === "/admin") {
+				control?.preventDefault();
+			}
+		});
+		subscribe("beforeNavigate", logNavigation);
+
+		expect(emitCancelable("beforeNavigate", { url: "/admin" })).toEqual({
+			defaultPrevented: true,
+			propagationStopped: false
+		});
+		expect(emitCancelable("beforeNavigate", { url: "/home" }).defaultPrevented).toBe(false);
+		expect(logNavigation).toHaveBeenCalledTimes(2);
+	});
+
+	it("should not call the remaining listeners after a listener stopped the propagation", () => {
+		const { subscribe, subscribeAny, emitCancelable } = createEventEmitter<NavigationEvents>();
+		const logNavigation = jest.fn();
+		const logEvent = jest.fn();
+		subscribe("beforeNavigate", logNavigation);
+		subscribeAny(logEvent);
+		subscribe(
+			"beforeNavigate",
+			(_, __, control) => {
+				expect(control?.defaultPrevented).toBe(false);
+				control?.preventDefault();
+				control?.stopPropagation();
+				expect(control?.defaultPrevented).toBe(true);
+			},
+			{ priority: 10 }
+		);
+
+		expect(emitCancelable("beforeNavigate", { url: "/home" })).toEqual({
+			defaultPrevented: true,
+			propagationStopped: true
+		});
+		expect(logNavigation).not.toHaveBeenCalled();
+		expect(logEvent).not.toHaveBeenCalled();
+	});
+
+	it("should pass the control object to catch-all and `once` listeners", () => {
+		const { subscribe, subscribeAny, emitCancelable } = createEventEmitter<NavigationEvents>();
+		subscribeAny((_, control) => control?.preventDefault(), { priority: 1 });
+		once(subscribe)("beforeNavigate", (_, __, control) => control?.stopPropagation());
+
+		expect(emitCancelable("beforeNavigate", { url: "/home" })).toEqual({
+			defaultPrevented: true,
+			propagationStopped: true
+		});
+	});
+
+	it("should not pass a control object to listeners called by `emit`", () => {
+		const { subscribe, subscribeAny, emit } = createEventEmitter<NavigationEvents>();
+		const logNavigation = jest.fn();
+		const logEvent = jest.fn();
+		subscribe("beforeNavigate", logNavigation);
+		subscribeAny(logEvent);
+
+		emit("beforeNavigate", { url: "/home" });
+
+		expect(logNavigation).toHaveBeenCalledWith("beforeNavigate", { url: "/home" });
+		expect(logEvent).toHaveBeenCalledWith({ eventName: "beforeNavigate", data: { url: "/home" } });
+	});
+});
+
+describe("createEventEmitter abort signal", () => {
+	type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string }>;
+
+	it("should unsubscribe listeners when the signal is aborted", () => {
+		const { subscribe, subscribeAny, subscribePattern, emit } = createEventEmitter<AppEvents>();
+		const controller = new AbortController();
+		const logUserLogin = jest.fn();
+		const logEvent = jest.fn();
+		const logUserEvent = jest.fn();
+		subscribe("userLogin", logUserLogin, { signal: controller.signal });
+		subscribeAny(logEvent, { signal: controller.signal });
+		subscribePattern("*", logUserEvent, { signal: controller.signal });
+
+		emit("userLogin", { userId: "user1" });
+		controller.abort();
+		emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(logEvent).toHaveBeenCalledTimes(1);
+		expect(logUserEvent).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not subscribe listeners with an already aborted signal", () => {
+		const { subscribe, subscribeAny, subscribePattern, emit } = createEventEmitter<AppEvents>();
+		const signal = AbortSignal.abort();
+		const logUserLogin = jest.fn();
+
+		expect(subscribe("userLogin", logUserLogin, { signal })()).toBe(false);
+		expect(subscribeAny(logUserLogin, { signal })()).toBe(false);
+		expect(subscribePattern("*", logUserLogin, { signal })()).toBe(false);
+		emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).not.toHaveBeenCalled();
+	});
+
+	it("should stop listening to the signal once unsubscribed", () => {
+		const [subscribe] = createEventEmitter<AppEvents>();
+		const controller = new AbortController();
+		const removeEventListener = jest.spyOn(controller.signal, "removeEventListener");
+		const unsubscribe = subscribe("userLogin", jest.fn(), { signal: controller.signal });
+
+		expect(unsubscribe()).toBe(true);
+		expect(removeEventListener).toHaveBeenCalledWith("abort", expect.any(Function));
+		controller.abort();
+		expect(unsubscribe()).toBe(false);
+	});
+
+	it("should unsubscribe a `once` listener when the signal is aborted", () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>();
+		const controller = new AbortController();
+		const logUserLogin = jest.fn();
+		once(subscribe)("userLogin", logUserLogin, { signal: controller.signal });
+
+		controller.abort();
+		emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).not.toHaveBeenCalled();
+	});
+
+	it("should reject the `awaited` promise with the reason of the signal and unsubscribe", async () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>();
+		const controller = new AbortController();
+		const loginPromise = awaited(subscribe)("userLogin", { signal: controller.signal });
+
+		controller.abort(new Error("Component destroyed"));
+		emit("userLogin", { userId: "user1" });
+
+		await expect(loginPromise).rejects.toThrow("Component destroyed");
+	});
+
+	it("should reject the `awaited` promise at once if the signal is already aborted", async () => {
+		const [subscribe] = createEventEmitter<AppEvents>();
+
+		await expect(
+			awaited(subscribe)("userLogin", { signal: AbortSignal.abort(new Error("Too late")) })
+		).rejects.toThrow("Too late");
+	});
+
+	it("should resolve the `awaited` promise and stop listening to the signal when the event occurs", async () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>();
+		const controller = new AbortController();
+		const loginPromise = awaited(subscribe)("userLogin", { signal: controller.signal });
+
+		emit("userLogin", { userId: "user1" });
+		controller.abort();
+
+		await expect(loginPromise).resolves.toEqual({ userId: "user1" });
+	});
+});
+
+describe("createEventEmitter awaited events", () => {
+	type LoginEvents = EventDescription<"success", { userId: string }> &
+		EventDescription<"failure", Error> &
+		EventDescription<"logout", { userId: string }>;
+
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("should resolve the `awaited` promise with the first event matching the predicate", async () => {
+		const [subscribe, emit] = createEventEmitter<LoginEvents>();
+		const successPromise = awaited(subscribe)("success", { predicate: data => data.userId === "user2" });
+
+		emit("success", { userId: "user1" });
+		emit("success", { userId: "user2" });
+
+		await expect(successPromise).resolves.toEqual({ userId: "user2" });
+	});
+
+	it("should reject the `awaited` promise with a `TimeoutError` and unsubscribe when the timeout elapses", async () => {
+		jest.useFakeTimers();
+		const [subscribe, emit] = createEventEmitter<LoginEvents>();
+		const logSuccess = jest.fn();
+		subscribe("success", logSuccess);
+		const successPromise = awaited(subscribe)("success", { timeout: 1000 });
+
+		jest.advanceTimersByTime(1000);
+		emit("success", { userId: "user1" });
+
+		await expect(successPromise).rejects.toThrow(
+			new TimeoutError('Timed out after 1000 ms waiting for "success"', 1000)
+		);
+		await expect(successPromise).rejects.toMatchObject({ name: "TimeoutError", timeout: 1000 });
+		expect(logSuccess).toHaveBeenCalledTimes(1);
+	});
+
+	it("should clear the timeout once the `awaited` promise resolves", async () => {
+		jest.useFakeTimers();
+		const [subscribe, emit] = createEventEmitter<LoginEvents>();
+		const successPromise = awaited(subscribe)("success", { timeout: 1000 });
+
+		emit("success", { userId: "user1" });
+
+		await expect(successPromise).resolves.toEqual({ userId: "user1" });
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it("should resolve the `awaitedAny` promise with the first of the events", async () => {
+		const [subscribe, emit] = createEventEmitter<LoginEvents>();
+		const logFailure = jest.fn();
+		const resultPromise = awaitedAny(subscribe)(["success", "failure"]);
+		subscribe("failure", logFailure);
+
+		emit("logout", { userId: "user1" });
+		emit("failure", new Error("Wrong password"));
+		emit("success", { userId: "user1" });
+
+		const result = await resultPromise;
+		expect(result).toEqual({ eventName: "failure", data: new Error("Wrong password") });
+		expect(result.eventName === "failure" && result.data.message).toBe("Wrong password");
+		expect(logFailure).toHaveBeenCalledTimes(1);
+	});
+
+	it("should unsubscribe from all the events once the `awaitedAny` promise settles", async () => {
+		const [subscribe, emit] = createEventEmitter<LoginEvents>();
+		const unsubscribes: jest.Mock[] = [];
+		const trackingSubscribe: typeof subscribe = (eventName, listener, predicateOrOptions) => {
+			const unsubscribe = jest.fn(subscribe(eventName, listener, predicateOrOptions));
+			unsubscribes.push(unsubscribe);
+			return unsubscribe;
+		};
+		const resultPromise = awaitedAny(trackingSubscribe)(["success", "failure"]);
+
+		emit("success", { userId: "user1" });
+
+		await expect(resultPromise).resolves.toEqual({ eventName: "success", data: { userId: "user1" } });
+		expect(unsubscribes).toHaveLength(2);
+		for (const unsubscribe of unsubscribes) {
+			expect(unsubscribe).toHaveBeenCalledTimes(1);
+		}
+	});
+
+	it("should filter the events of `awaitedAny` with the predicate", async () => {
+		const [subscribe, emit] = createEventEmitter<LoginEvents>();
+		const resultPromise = awaitedAny(subscribe)(["success", "logout"], {
+			predicate: event => event.eventName === "logout" || event.data.userId === "user2"
+		});
+
+		emit("success", { userId: "user1" });
+		emit("logout", { userId: "user1" });
+
+		await expect(resultPromise).resolves.toEqual({ eventName: "logout", data: { userId: "user1" } });
+	});
+
+	it("should reject the `awaitedAny` promise with a `TimeoutError` naming the events", async () => {
+		jest.useFakeTimers();
+		const [subscribe] = createEventEmitter<LoginEvents>();
+		const resultPromise = awaitedAny(subscribe)(["success", "failure"], { timeout: 500 });
+
+		jest.advanceTimersByTime(500);
+
+		await expect(resultPromise).rejects.toThrow('Timed out after 500 ms waiting for "success" or "failure"');
+	});
+
+	it("should reject the `awaitedAny` promise with the reason of the signal and clear the timeout", async () => {
+		jest.useFakeTimers();
+		const [subscribe, emit] = createEventEmitter<LoginEvents>();
+		const controller = new AbortController();
+		const logSuccess = jest.fn();
+		const resultPromise = awaitedAny(subscribe)(["success", "failure"], {
+			signal: controller.signal,
+			timeout: 500
+		});
+		subscribe("success", logSuccess);
+
+		controller.abort(new Error("Canceled"));
+		emit("success", { userId: "user1" });
+
+		await expect(resultPromise).rejects.toThrow("Canceled");
+		expect(jest.getTimerCount()).toBe(0);
+		expect(logSuccess).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("createEventEmitter sticky events", () => {
+	type AppEvents = EventDescription<"configLoaded", { theme: string }> &
+		EventDescription<"message", { id: number }> &
+		EventDescription<"ready">;
+
+	const createStickyEmitter = (options: EventEmitterOptions<AppEvents> = {}): EventEmitter<AppEvents> =>
+		createEventEmitter<AppEvents>({ sticky: { configLoaded: 1, message: 2, ready: 1 }, ...options });
+
+	it("should replay the latest payload to the listeners subscribed afterward", () => {
+		const [subscribe, emit] = createStickyEmitter();
+		const applyConfig = jest.fn();
+
+		emit("configLoaded", { theme: "light" });
+		emit("configLoaded", { theme: "dark" });
+		subscribe("configLoaded", applyConfig);
+
+		expect(applyConfig).toHaveBeenCalledTimes(1);
+		expect(applyConfig).toHaveBeenCalledWith("configLoaded", { theme: "dark" });
+	});
+
+	it("should replay the given number of latest payloads in emission order, filtered by the predicate", async () => {
+		const { subscribe, emit, emitAsync, emitSerial, emitCancelable } = createStickyEmitter();
+		const logMessage = jest.fn();
+		const logEvenMessage = jest.fn();
+
+		emit("message", { id: 1 });
+		await emitAsync("message", { id: 2 });
+		await emitSerial("message", { id: 3 });
+		emitCancelable("message", { id: 4 });
+		subscribe("message", logMessage);
+		subscribe("message", logEvenMessage, data => data.id % 2 === 0);
+
+		expect(logMessage.mock.calls.map(([, data]) => data.id)).toEqual([3, 4]);
+		expect(logEvenMessage.mock.calls.map(([, data]) => data.id)).toEqual([4]);
+	});
+
+	it("should not replay the payloads of the events which are not sticky", () => {
+		const [subscribe, emit] = createEventEmitter<AppEvents>({ sticky: { configLoaded: 1, message: 0 } });
+		const logMessage = jest.fn();
+
+		emit("message", { id: 1 });
+		subscribe("message", logMessage);
+
+		expect(logMessage).not.toHaveBeenCalled();
+	});
+
+	it("should replay the payloads to `once` listeners up to their count", () => {
+		const [subscribe, emit] = createStickyEmitter();
+		const logMessage = jest.fn();
+		const logMessages = jest.fn();
+
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+		const unsubscribe = once(subscribe)("message", logMessage);
+		once(subscribe)("message", logMessages, { count: 3 });
+		emit("message", { id: 3 });
+		emit("message", { id: 4 });
+
+		expect(unsubscribe()).toBe(false);
+		expect(logMessage.mock.calls.map(([, data]) => data.id)).toEqual([1]);
+		expect(logMessages.mock.calls.map(([, data]) => data.id)).toEqual([1, 2, 3]);
+	});
+
+	it("should resolve `awaited` and `awaitedAny` promises at once if the event was already emitted", async () => {
+		jest.useFakeTimers();
+		const [subscribe, emit] = createStickyEmitter();
+		const logMessage = jest.fn();
+
+		emit("ready", undefined);
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+		const readyPromise = awaited(subscribe)("ready", { timeout: 1000 });
+		const messagePromise = awaitedAny(subscribe)(["configLoaded", "message"], { timeout: 1000 });
+		subscribe("message", logMessage);
+
+		await expect(readyPromise).resolves.toBeUndefined();
+		await expect(messagePromise).resolves.toEqual({ eventName: "message", data: { id: 1 } });
+		expect(jest.getTimerCount()).toBe(0);
+		emit("message", { id: 3 });
+		expect(logMessage).toHaveBeenCalledTimes(3);
+		jest.useRealTimers();
+	});
+
+	it("should forget the remembered payloads of an event or of all the events", () => {
+		const { subscribe, emit, clearSticky } = createStickyEmitter();
+		const applyConfig = jest.fn();
+		const logMessage = jest.fn();
+		const logReady = jest.fn();
+
+		emit("configLoaded", { theme: "dark" });
+		emit("message", { id: 1 });
+		emit("ready", undefined);
+		clearSticky("configLoaded");
+		subscribe("configLoaded", applyConfig);
+		subscribe("message", logMessage);
+		clearSticky();
+		subscribe("ready", logReady);
+
+		expect(applyConfig).not.toHaveBeenCalled();
+		expect(logMessage).toHaveBeenCalledTimes(1);
+		expect(logReady).not.toHaveBeenCalled();
+	});
+
+	it("should apply the error policy to the replayed payloads", () => {
+		const onError = jest.fn();
+		const [subscribe, emit] = createStickyEmitter({ errorPolicy: "aggregate", onError });
+		const failing = jest.fn(failingListener);
+
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+
+		expect(() => subscribe("message", failing)).toThrow(AggregateError);
+		expect(onError).toHaveBeenCalledTimes(2);
+		expect(onError).toHaveBeenCalledWith(expect.any(Error), "message", { id: 1 }, failing);
+	});
+
+	it("should not subscribe a listener when replaying the payloads to it throws", () => {
+		const { subscribe, emit, listenerCount } = createStickyEmitter();
+		const failing = jest.fn(failingListener);
+
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+
+		expect(() => subscribe("message", failing)).toThrow("Listener failed");
+		expect(listenerCount("message")).toBe(0);
+		emit("message", { id: 3 });
+		expect(failing).toHaveBeenCalledTimes(1);
+	});
+
+	it("should replay a snapshot of the payloads to a listener emitting the event again", () => {
+		const [subscribe, emit] = createStickyEmitter();
+		const ids: number[] = [];
+
+		emit("message", { id: 1 });
+		subscribe("message", (_, data) => {
+			ids.push(data.id);
+			if (data.id < 3) {
+				emit("message", { id: data.id + 10 });
+			}
+		});
+
+		expect(ids).toEqual([1, 11]);
+	});
+
+	it("should stop replaying the payloads to a listener once unsubscribed", () => {
+		const [subscribe, emit, unsubscribeAll] = createStickyEmitter();
+		const logMessage = jest.fn(() => unsubscribeAll("message"));
+
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+		subscribe("message", logMessage);
+
+		expect(logMessage).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("createEventEmitter introspection", () => {
+	type AppEvents = EventDescription<"user:login" | "user:logout" | "report", { userId: string }>;
+
+	it("should count the listeners called for an event and all the listeners", () => {
+		const { subscribe, subscribeAny, subscribePattern, listenerCount } = createEventEmitter<AppEvents>();
+
+		expect(listenerCount()).toBe(0);
+		expect(listenerCount("user:login")).toBe(0);
+
+		subscribe("user:login", jest.fn());
+		subscribe("user:login", jest.fn(), () => false);
+		subscribe("report", jest.fn());
+		subscribePattern("user:*", jest.fn());
+		subscribeAny(jest.fn());
+
+		expect(listenerCount("user:login")).toBe(4);
+		expect(listenerCount("user:logout")).toBe(2);
+		expect(listenerCount("report")).toBe(2);
+		expect(listenerCount()).toBe(5);
+	});
+
+	it("should list the names of the events having listeners", () => {
+		const { subscribe, subscribeAny, unsubscribeAll, eventNames } = createEventEmitter<AppEvents>();
+
+		expect(eventNames()).toEqual([]);
+
+		const unsubscribe = subscribe("report", jest.fn());
+		subscribe("user:login", jest.fn());
+		subscribeAny(jest.fn());
+
+		expect(eventNames()).toEqual(["report", "user:login"]);
+		unsubscribe();
+		expect(eventNames()).toEqual(["user:login"]);
+		unsubscribeAll("user:login");
+		expect(eventNames()).toEqual([]);
+	});
+
+	it("should check whether emitting an event calls any listener", () => {
+		const { subscribe, subscribePattern, unsubscribeAll, hasListeners } = createEventEmitter<AppEvents>();
+		const unsubscribe = subscribe("report", jest.fn());
+		subscribePattern("user:*", jest.fn());
+
+		expect(hasListeners("report")).toBe(true);
+		expect(hasListeners("user:logout")).toBe(true);
+		unsubscribe();
+		unsubscribeAll();
+		expect(hasListeners("report")).toBe(false);
+		expect(hasListeners("user:logout")).toBe(false);
+	});
+});
+
+describe("createEventEmitter middleware", () => {
+	type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string; correlationId?: string }>;
+
+	it("should pass the events through the middleware in the order it was added", () => {
+		const calls: string[] = [];
+		const { subscribe, emit, use } = createEventEmitter<AppEvents>({
+			middleware: [
+				(eventName, data, next): void | Promise<void> => {
+					calls.push(`first:${eventName}`);
+					return next(data);
+				}
+			]
+		});
+		use((eventName, data, next) => {
+			calls.push(`second:${eventName}`);
+			return next(data);
+		});
+		subscribe("userLogin", record(calls, "listener"));
+
+		emit("userLogin", { userId: "user1" });
+
+		expect(calls).toEqual(["first:userLogin", "second:userLogin", "listener"]);
+	});
+
+	it("should pass the data transformed by the middleware to the listeners", () => {
+		const { subscribe, emit, use } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		use((_, data, next) => next({ ...data, correlationId: "correlation1" }));
+		subscribe("userLogin", logUserLogin);
+
+		emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user1", correlationId: "correlation1" });
+	});
+
+	it("should swallow the events the middleware does not pass on", () => {
+		const { subscribe, subscribeAny, emit, use } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		const logEvent = jest.fn();
+		use((eventName, data, next) => {
+			if (eventName !== "userLogout") {
+				return next(data);
+			}
+		});
+		subscribe("userLogin", logUserLogin);
+		subscribeAny(logEvent);
+
+		emit("userLogout", { userId: "user1" });
+		emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(logEvent).toHaveBeenCalledTimes(1);
+		expect(logEvent).toHaveBeenCalledWith({ eventName: "userLogin", data: { userId: "user1" } });
+	});
+
+	it("should call the listeners once the middleware calls `next` asynchronously", async () => {
+		const { subscribe, emit, use } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		use(async (_, data, next) => {
+			await delay(1);
+			return next({ ...data, correlationId: "correlation1" });
+		});
+		subscribe("userLogin", logUserLogin);
+
+		emit("userLogin", { userId: "user1" });
+		expect(logUserLogin).not.toHaveBeenCalled();
+		await delay(5);
+
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user1", correlationId: "correlation1" });
+	});
+
+	it("should pass the errors of async middleware emitted with `emit` and `emitCancelable` to `onUnhandledError`", async () => {
+		const onUnhandledError = jest.fn();
+		const { subscribe, emit, emitCancelable } = createEventEmitter<AppEvents>({
+			middleware: [
+				async (_, data, next): Promise<void> => {
+					await delay(1);
+					return next(data);
+				}
+			],
+			onUnhandledError
+		});
+		const error = new Error("Analytics is down");
+		subscribe("userLogin", (_, __, control) => {
+			control?.preventDefault();
+			throw error;
+		});
+
+		expect(() => emit("userLogin", { userId: "user1" })).not.toThrow();
+		expect(emitCancelable("userLogin", { userId: "user1" })).toEqual({
+			defaultPrevented: false,
+			propagationStopped: false
+		});
+		await delay(5);
+
+		expect(onUnhandledError.mock.calls).toEqual([
+			[error, "userLogin"],
+			[error, "userLogin"]
+		]);
+	});
+
+	it("should log the errors of async middleware with `console.error` by default", async () => {
+		const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+		const { emit } = createEventEmitter<AppEvents>({
+			middleware: [
+				async (): Promise<void> => {
+					throw new Error("Correlation service is down");
+				}
+			]
+		});
+
+		emit("userLogin", { userId: "user1" });
+		await delay(1);
+
+		expect(consoleError).toHaveBeenCalledWith(
+			'Unhandled error while emitting "userLogin"',
+			new Error("Correlation service is down")
+		);
+		consoleError.mockRestore();
+	});
+
+	it("should make `emitAsync` and `emitSerial` wait for the listeners when the middleware returns `next`", async () => {
+		const { subscribe, emitAsync, emitSerial, use } = createEventEmitter<AppEvents>();
+		const calls: string[] = [];
+		use(async (_, data, next) => {
+			await delay(1);
+			calls.push("middleware");
+			return next(data);
+		});
+		subscribe("userLogin", async () => {
+			await delay(1);
+			calls.push("listener");
+		});
+
+		await emitAsync("userLogin", { userId: "user1" });
+		await emitSerial("userLogin", { userId: "user1" });
+
+		expect(calls).toEqual(["middleware", "listener", "middleware", "listener"]);
+	});
+
+	it("should pass the events emitted with `emitCancelable` through the middleware", () => {
+		const { subscribe, emitCancelable, use } = createEventEmitter<AppEvents>();
+		use((_, data, next) => next({ ...data, correlationId: "correlation1" }));
+		subscribe("userLogin", (_, data, control) => {
+			if (data.correlationId) {
+				control?.preventDefault();
+			}
+		});
+
+		expect(emitCancelable("userLogin", { userId: "user1" })).toEqual({
+			defaultPrevented: true,
+			propagationStopped: false
+		});
+	});
+
+	it("should remove the middleware at runtime", () => {
+		const { subscribe, emit, use } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		const remove = use(() => {});
+		subscribe("userLogin", logUserLogin);
+
+		emit("userLogin", { userId: "user1" });
+		expect(remove()).toBe(true);
+		expect(remove()).toBe(false);
+		emit("userLogin", { userId: "user2" });
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user2" });
+	});
+
+	it("should apply the middleware added or removed by a middleware to the next events only", () => {
+		const { subscribe, emit, use } = createEventEmitter<AppEvents>();
+		const calls: string[] = [];
+		const swallow = (): void => {
+			calls.push("swallowed");
+		};
+		const removeFirst = use((_, data, next) => {
+			removeFirst();
+			use(swallow);
+			return next(data);
+		});
+		subscribe("userLogin", record(calls, "listener"));
+
+		emit("userLogin", { userId: "user1" });
+		emit("userLogin", { userId: "user2" });
+
+		expect(calls).toEqual(["listener", "swallowed"]);
+	});
+
+	it("should propagate the errors of the listeners through the middleware", () => {
+		const { subscribe, emit, use } = createEventEmitter<AppEvents>();
+		const onError = jest.fn();
+		use((_, data, next) => {
+			try {
+				return next(data);
+			} catch (error) {
+				onError(error);
+			}
+		});
+		subscribe("userLogin", failingListener);
+
+		expect(() => emit("userLogin", { userId: "user1" })).not.toThrow();
+		expect(onError).toHaveBeenCalledWith(new Error("Listener failed"));
+	});
+});
+
+describe("createEventEmitter memory leaks", () => {
+	type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string }>;
+
+	// Weak references and finalization registries whose targets are only collected when told to
+	const collectedTargets = new Set<object>();
+	const registries: FakeFinalizationRegistry[] = [];
+
+	class FakeWeakReference<Target extends object> {
+		readonly #target: Target;
+
+		constructor(target: Target) {
+			this.#target = target;
+		}
+
+		deref(): Target | undefined {
+			return collectedTargets.has(this.#target) ? undefined : this.#target;
+		}
+	}
+
+	class FakeFinalizationRegistry {
+		readonly targets = new Map<object, UnsubscribeEvent>();
+		readonly unregister = jest.fn();
+		readonly cleanup: (heldValue: UnsubscribeEvent) => void;
+
+		constructor(cleanup: (heldValue: UnsubscribeEvent) => void) {
+			this.cleanup = cleanup;
+			registries.push(this);
+		}
+
+		register(target: object, heldValue: UnsubscribeEvent): void {
+			this.targets.set(target, heldValue);
+		}
+	}
+
+	// Collects a target, calling the cleanup callbacks of the registries it was registered with
+	const collect = (target: object): void => {
+		collectedTargets.add(target);
+		for (const registry of registries) {
+			const heldValue = registry.targets.get(target);
+			if (heldValue) {
+				registry.cleanup(heldValue);
+			}
+		}
+	};
+
+	const { WeakRef, FinalizationRegistry } = globalThis;
+
+	beforeEach(() => {
+		collectedTargets.clear();
+		registries.length = 0;
+		globalThis.WeakRef = FakeWeakReference as unknown as WeakRefConstructor;
+		globalThis.FinalizationRegistry = FakeFinalizationRegistry as unknown as FinalizationRegistryConstructor;
+	});
+
+	afterEach(() => {
+		globalThis.WeakRef = WeakRef;
+		globalThis.FinalizationRegistry = FinalizationRegistry;
+		jest.restoreAllMocks();
+	});
+
+	it("should report the events exceeding the maximum number of listeners once", () => {
+		const onMaxListeners = jest.fn();
+		const { subscribe } = createEventEmitter<AppEvents>({ maxListeners: 1, onMaxListeners });
+
+		subscribe("userLogin", jest.fn());
+		subscribe("userLogout", jest.fn());
+		expect(onMaxListeners).not.toHaveBeenCalled();
+		subscribe("userLogin", jest.fn());
+		subscribe("userLogin", jest.fn());
+
+		expect(onMaxListeners).toHaveBeenCalledTimes(1);
+		const [warning] = onMaxListeners.mock.calls[0] as [MaxListenersExceededWarning];
+		expect(warning).toBeInstanceOf(MaxListenersExceededWarning);
+		expect(warning).toMatchObject({
+			name: "MaxListenersExceededWarning",
+			eventName: "userLogin",
+			listenerCount: 2,
+			maxListeners: 1,
+			message: 'Possible memory leak: 2 listeners are subscribed to "userLogin", exceeding the maximum of 1'
+		});
+		expect(warning.stack).toContain("eventEmitter.ts");
+	});
+
+	it("should apply the maximum number of listeners configured for each event", () => {
+		const onMaxListeners = jest.fn();
+		const { subscribe } = createEventEmitter<AppEvents>({ maxListeners: { userLogout: 0 }, onMaxListeners });
+
+		subscribe("userLogin", jest.fn());
+		subscribe("userLogin", jest.fn());
+		subscribe("userLogout", jest.fn());
+
+		expect(onMaxListeners).toHaveBeenCalledTimes(1);
+		expect(onMaxListeners).toHaveBeenCalledWith(
+			expect.objectContaining({ eventName: "userLogout", listenerCount: 1 })
+		);
+	});
+
+	it("should warn on the console by default", () => {
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+		const { subscribe } = createEventEmitter<AppEvents>({ maxListeners: 0 });
+
+		subscribe("userLogin", jest.fn());
+
+		expect(warn).toHaveBeenCalledWith(expect.any(MaxListenersExceededWarning));
+	});
+
+	it("should call the weakly held listeners until they are unsubscribed", () => {
+		const { subscribeWeak, emit, listenerCount } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		const unsubscribe = subscribeWeak("userLogin", logUserLogin, ({ userId }) => userId !== "admin");
+
+		emit("userLogin", { userId: "admin" });
+		emit("userLogin", { userId: "user1" });
+		expect(unsubscribe()).toBe(true);
+		expect(unsubscribe()).toBe(false);
+		emit("userLogin", { userId: "user2" });
+
+		expect(logUserLogin.mock.calls).toEqual([["userLogin", { userId: "user1" }]]);
+		expect(listenerCount()).toBe(0);
+		expect(registries[0]?.unregister).toHaveBeenCalledTimes(2);
+	});
+
+	it("should unsubscribe the weakly held listeners once they are garbage collected", () => {
+		const { subscribe, subscribeWeak, listenerCount } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", jest.fn());
+		subscribeWeak("userLogin", logUserLogin);
+		subscribeWeak("userLogout", jest.fn());
+
+		collect(logUserLogin);
+
+		expect(listenerCount("userLogin")).toBe(1);
+		expect(listenerCount("userLogout")).toBe(1);
+		expect(registries).toHaveLength(1);
+	});
+
+	it("should unsubscribe the weakly held listeners collected before the cleanup when their event is emitted", () => {
+		const { subscribeWeak, emit, listenerCount } = createEventEmitter<AppEvents>();
+		const logUserLogin = jest.fn();
+		subscribeWeak("userLogin", logUserLogin);
+
+		collectedTargets.add(logUserLogin);
+		emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).not.toHaveBeenCalled();
+		expect(listenerCount()).toBe(0);
+	});
+});
@@ -0,0 +1,188 @@
+import { createEventEmitter, type EventDescription } from "../src/eventEmitter";
+import { BufferOverflowError, on } from "../src/eventIterator";
+
+type WorkerEvents = EventDescription<"message", { id: number }> & EventDescription<"stop">;
+
+const messages = (...ids: number[]): { id: number }[] => ids.map(id => ({ id }));
+
+describe("on", () => {
+	it("should yield the events emitted while waiting and between iterations", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const iterator = on(subscribe, "message");
+
+		const firstPromise = iterator.next();
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+		emit("message", { id: 3 });
+
+		await expect(firstPromise).resolves.toEqual({ done: false, value: { id: 1 } });
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 2 } });
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 3 } });
+	});
+
+	it("should support `for await...of` and unsubscribe when the loop breaks", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const received: { id: number }[] = [];
+		const logMessage = jest.fn();
+		subscribe("message", logMessage);
+		const iterator = on(subscribe, "message");
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+		emit("message", { id: 3 });
+
+		for await (const data of iterator) {
+			received.push(data);
+			if (data.id === 2) {
+				break;
+			}
+		}
+		emit("message", { id: 4 });
+
+		expect(received).toEqual(messages(1, 2));
+		await expect(iterator.next()).resolves.toEqual({ done: true, value: undefined });
+		expect(logMessage).toHaveBeenCalledTimes(4);
+	});
+
+	it("should end the pending iterations when `return` is called", async () => {
+		const [subscribe] = createEventEmitter<WorkerEvents>();
+		const iterator = on(subscribe, "message");
+
+		const nextPromise = iterator.next();
+
+		await expect(iterator.return?.()).resolves.toEqual({ done: true, value: undefined });
+		await expect(nextPromise).resolves.toEqual({ done: true, value: undefined });
+	});
+
+	it("should only yield the events matching the predicate", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const iterator = on(subscribe, "message", { predicate: data => data.id % 2 === 0 });
+
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 2 } });
+	});
+
+	it("should drop the oldest events when the buffer is full with the `dropOldest` policy", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const iterator = on(subscribe, "message", { bufferSize: 2, overflow: "dropOldest" });
+
+		for (const data of messages(1, 2, 3, 4)) {
+			emit("message", data);
+		}
+
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 3 } });
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 4 } });
+	});
+
+	it("should drop the newest events when the buffer is full with the `dropNewest` policy", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const iterator = on(subscribe, "message", { bufferSize: 2, overflow: "dropNewest" });
+
+		for (const data of messages(1, 2, 3, 4)) {
+			emit("message", data);
+		}
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 1 } });
+		emit("message", { id: 5 });
+
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 2 } });
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 5 } });
+	});
+
+	it("should throw a `BufferOverflowError` after the buffered events when the buffer overflows", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const iterator = on(subscribe, "message", { bufferSize: 1 });
+
+		emit("message", { id: 1 });
+		emit("message", { id: 2 });
+		emit("message", { id: 3 });
+
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 1 } });
+		await expect(iterator.next()).rejects.toThrow(
+			new BufferOverflowError('The buffer of "message" events overflowed its size of 1', 1)
+		);
+		await expect(iterator.next()).resolves.toEqual({ done: true, value: undefined });
+	});
+
+	it("should throw a `BufferOverflowError` when the replayed sticky events overflow the buffer", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>({ sticky: { message: 3 } });
+		const logMessage = jest.fn();
+		for (const data of messages(1, 2, 3)) {
+			emit("message", data);
+		}
+
+		const iterator = on(subscribe, "message", { bufferSize: 2 });
+		subscribe("message", logMessage);
+		emit("message", { id: 4 });
+
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 1 } });
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: { id: 2 } });
+		await expect(iterator.next()).rejects.toThrow(BufferOverflowError);
+		await expect(iterator.next()).resolves.toEqual({ done: true, value: undefined });
+		expect(logMessage).toHaveBeenCalledTimes(4);
+	});
+
+	it("should reject the pending iteration with the reason of the signal and discard the buffer", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const controller = new AbortController();
+		const iterator = on(subscribe, "message", { signal: controller.signal });
+		const loop = async (): Promise<{ id: number }[]> => {
+			const received: { id: number }[] = [];
+			for await (const data of iterator) {
+				received.push(data);
+			}
+			return received;
+		};
+
+		const loopPromise = loop();
+		controller.abort(new Error("Shutting down"));
+		emit("message", { id: 1 });
+
+		await expect(loopPromise).rejects.toThrow("Shutting down");
+	});
+
+	it("should end the other pending iterations when the signal is aborted", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const controller = new AbortController();
+		const iterator = on(subscribe, "message", { signal: controller.signal });
+		emit("message", { id: 1 });
+		await iterator.next();
+
+		const firstPromise = iterator.next();
+		const secondPromise = iterator.next();
+		controller.abort(new Error("Shutting down"));
+
+		await expect(firstPromise).rejects.toThrow("Shutting down");
+		await expect(secondPromise).resolves.toEqual({ done: true, value: undefined });
+	});
+
+	it("should throw the reason of an already aborted signal without yielding events", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const iterator = on(subscribe, "message", { signal: AbortSignal.abort(new Error("Too late")) });
+
+		emit("message", { id: 1 });
+
+		await expect(iterator.next()).rejects.toThrow("Too late");
+		await expect(iterator.next()).resolves.toEqual({ done: true, value: undefined });
+	});
+
+	it("should stop listening to the signal once finished", async () => {
+		const [subscribe] = createEventEmitter<WorkerEvents>();
+		const controller = new AbortController();
+		const removeEventListener = jest.spyOn(controller.signal, "removeEventListener");
+		const iterator = on(subscribe, "message", { signal: controller.signal });
+
+		await iterator.return?.();
+
+		expect(removeEventListener).toHaveBeenCalledWith("abort", expect.any(Function));
+	});
+
+	it("should iterate over events without data", async () => {
+		const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+		const iterator = on(subscribe, "stop");
+
+		emit("stop", undefined);
+
+		await expect(iterator.next()).resolves.toEqual({ done: false, value: undefined });
+	});
+});
@@ -0,0 +1,84 @@
+import { createEventEmitter, type EventDescription } from "../src/eventEmitter";
+import { eventMatchers, type EventMatchers } from "../src/eventMatchers";
+import { createSpyEmitter } from "../src/spyEventEmitter";
+
+declare global {
+	// eslint-disable-next-line @typescript-eslint/no-namespace -- Jest declares its matchers in a namespace
+	namespace jest {
+		// eslint-disable-next-line @typescript-eslint/no-empty-object-type -- Declaration merging adds the matchers to the interface
+		interface Matchers<R> extends EventMatchers<R> {}
+	}
+}
+
+expect.extend(eventMatchers);
+
+type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string }>;
+
+describe("eventMatchers", () => {
+	it("should check whether a spy emitter emitted an event, with the given data", () => {
+		const emitter = createSpyEmitter<AppEvents>();
+		emitter.emit("userLogin", { userId: "user1" });
+
+		expect(emitter).toHaveEmitted("userLogin");
+		expect(emitter).toHaveEmitted("userLogin", { userId: "user1" });
+		expect(emitter).toHaveEmitted("userLogin", expect.objectContaining({ userId: expect.any(String) }));
+		expect(emitter).not.toHaveEmitted("userLogin", { userId: "user2" });
+		expect(emitter).not.toHaveEmitted("userLogout");
+	});
+
+	it("should explain why a spy emitter did or didn't emit an event", () => {
+		const emitter = createSpyEmitter<AppEvents>();
+		emitter.emit("userLogin", { userId: "user1" });
+
+		expect(() => expect(emitter).toHaveEmitted("userLogout")).toThrow(
+			'Expected the emitter to have emitted "userLogout", but it wasn\'t emitted'
+		);
+		expect(() => expect(emitter).toHaveEmitted("userLogin", { userId: "user2" })).toThrow(
+			/Expected the emitter to have emitted "userLogin" with .*"user2".*, but it was emitted with .*"user1"/s
+		);
+		expect(() => expect(emitter).not.toHaveEmitted("userLogin")).toThrow(
+			'Expected the emitter not to have emitted "userLogin"'
+		);
+	});
+
+	it("should check how many times a spy emitter emitted an event", () => {
+		const emitter = createSpyEmitter<AppEvents>();
+		emitter.emit("userLogin", { userId: "user1" });
+		emitter.emit("userLogin", { userId: "user2" });
+
+		expect(emitter).toHaveEmittedTimes("userLogin", 2);
+		expect(emitter).toHaveEmittedTimes("userLogout", 0);
+		expect(() => expect(emitter).toHaveEmittedTimes("userLogin", 1)).toThrow(
+			/Expected the emitter to have emitted "userLogin" .*1.* times, but it was emitted .*2.* times/s
+		);
+		expect(() => expect(emitter).not.toHaveEmittedTimes("userLogin", 2)).toThrow(
+			/Expected the emitter not to have emitted "userLogin"/
+		);
+	});
+
+	it("should check whether an emitter has listeners for an event or for any event", () => {
+		const emitter = createEventEmitter<AppEvents>();
+		expect(emitter).toHaveNoListeners();
+		const unsubscribe = emitter.subscribe("userLogin", jest.fn());
+
+		expect(emitter).toHaveNoListeners("userLogout");
+		expect(emitter).not.toHaveNoListeners("userLogin");
+		expect(() => expect(emitter).toHaveNoListeners()).toThrow(
+			/Expected the emitter to have no listeners, but it has .*1/s
+		);
+		expect(() => expect(emitter).not.toHaveNoListeners("userLogout")).toThrow(
+			'Expected "userLogout" to have listeners'
+		);
+		unsubscribe();
+		expect(createSpyEmitter<AppEvents>()).toHaveNoListeners();
+	});
+
+	it("should throw a `TypeError` when the received value isn't an emitter", () => {
+		expect(() => expect(createEventEmitter<AppEvents>()).toHaveEmitted("userLogin")).toThrow(
+			new TypeError("The received value isn't a spy emitter created with `createSpyEmitter`")
+		);
+		expect(() => expect(undefined).toHaveEmittedTimes("userLogin", 0)).toThrow(TypeError);
+		expect(() => expect({}).toHaveNoListeners()).toThrow(new TypeError("The received value isn't an emitter"));
+		expect(() => expect(null).toHaveNoListeners()).toThrow(TypeError);
+	});
+});
@@ -0,0 +1,49 @@
+import { createEventNameMatcher, type EventNameMatches } from "../src/eventPattern";
+
+describe("createEventNameMatcher", () => {
+	it("should match event names equal to a pattern without wildcards", () => {
+		const matches = createEventNameMatcher("chat:message:received");
+
+		expect(matches("chat:message:received")).toBe(true);
+		expect(matches("chat:message")).toBe(false);
+		expect(matches("chat:message:received:late")).toBe(false);
+	});
+
+	it("should match exactly one segment with `*`", () => {
+		const matches = createEventNameMatcher("chat:*");
+
+		expect(matches("chat:joined")).toBe(true);
+		expect(matches("chat")).toBe(false);
+		expect(matches("chat:message:received")).toBe(false);
+		expect(matches("user:joined")).toBe(false);
+	});
+
+	it("should match any number of segments with `**`", () => {
+		const matches = createEventNameMatcher("chat:**");
+
+		expect(matches("chat")).toBe(true);
+		expect(matches("chat:joined")).toBe(true);
+		expect(matches("chat:message:received")).toBe(true);
+		expect(matches("user:joined")).toBe(false);
+	});
+
+	it("should match wildcards in the middle of a pattern", () => {
+		const matchesOne = createEventNameMatcher("chat:*:received");
+		const matchesAny = createEventNameMatcher("**:received");
+
+		expect(matchesOne("chat:message:received")).toBe(true);
+		expect(matchesOne("chat:message:sent")).toBe(false);
+		expect(matchesAny("received")).toBe(true);
+		expect(matchesAny("chat:message:received")).toBe(true);
+		expect(matchesAny("chat:message:sent")).toBe(false);
+	});
+
+	it("should compute the same matches at the type level", () => {
+		const matches: EventNameMatches<"chat:message:received", "chat:**"> = true;
+		const matchesOne: EventNameMatches<"chat:joined", "chat:*"> = true;
+		const doesNotMatch: EventNameMatches<"chat:message:received", "chat:*"> = false;
+		const doesNotMatchOther: EventNameMatches<"user:joined", "chat:**"> = false;
+
+		expect([matches, matchesOne, doesNotMatch, doesNotMatchOther]).toEqual([true, true, false, false]);
+	});
+});
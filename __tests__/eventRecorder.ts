@@ -0,0 +1,246 @@
+import { createEventEmitter, type EventDescription } from "../src/eventEmitter";
+import { createEventRecorder, replayEvents, type EventClock, type RecordedEvent } from "../src/eventRecorder";
+
+type CartEvents = EventDescription<"itemAdded", { sku: string; quantity: number }> &
+	EventDescription<"itemRemoved", { sku: string }> &
+	EventDescription<"checkout">;
+
+// A clock whose time only moves when it is told to, or when the replay waits
+const createManualClock = (): EventClock & { sleeps: number[]; advance: (ms: number) => void } => {
+	let time = 0;
+	const sleeps: number[] = [];
+	return {
+		sleeps,
+		now: () => time,
+		sleep: (ms): Promise<void> => {
+			sleeps.push(ms);
+			time += ms;
+			return Promise.resolve();
+		},
+		advance: (ms): void => {
+			time += ms;
+		}
+	};
+};
+
+describe("createEventRecorder", () => {
+	it("should record the emitted events with their timestamp and sequence", () => {
+		const clock = createManualClock();
+		const emitter = createEventEmitter<CartEvents>();
+		const recorder = createEventRecorder(emitter, { clock });
+
+		emitter.emit("itemAdded", { sku: "apple", quantity: 2 });
+		clock.advance(150);
+		emitter.emit("checkout", undefined);
+
+		expect(recorder.entries()).toEqual([
+			{ eventName: "itemAdded", data: { sku: "apple", quantity: 2 }, timestamp: 0, sequence: 0 },
+			{ eventName: "checkout", data: undefined, timestamp: 150, sequence: 1 }
+		]);
+	});
+
+	it("should record the events emitted in every way, with or without listeners", async () => {
+		const emitter = createEventEmitter<CartEvents>();
+		const recorder = createEventRecorder(emitter);
+
+		emitter.emitCancelable("itemAdded", { sku: "apple", quantity: 1 });
+		await emitter.emitAsync("itemRemoved", { sku: "apple" });
+		await emitter.emitSerial("checkout", undefined);
+
+		expect(recorder.entries().map(({ eventName }) => eventName)).toEqual(["itemAdded", "itemRemoved", "checkout"]);
+		expect(recorder.entries()[0]?.timestamp).toEqual(expect.any(Number));
+	});
+
+	it("should record the data passed on by the previous middleware", () => {
+		const emitter = createEventEmitter<CartEvents>({
+			middleware: [
+				(eventName, data, next): void | Promise<void> =>
+					next(eventName === "itemAdded" ? { ...data, quantity: 10 } : data)
+			]
+		});
+		const recorder = createEventRecorder(emitter);
+
+		emitter.emit("itemAdded", { sku: "apple", quantity: 1 });
+
+		expect(recorder.entries()[0]?.data).toEqual({ sku: "apple", quantity: 10 });
+	});
+
+	it("should drop the oldest events once the capacity is reached", () => {
+		const emitter = createEventEmitter<CartEvents>();
+		const recorder = createEventRecorder(emitter, { capacity: 2 });
+
+		for (const sku of ["apple", "banana", "cherry", "date", "elderberry"]) {
+			emitter.emit("itemRemoved", { sku });
+		}
+
+		expect(recorder.entries()).toEqual([
+			expect.objectContaining({ data: { sku: "date" }, sequence: 3 }),
+			expect.objectContaining({ data: { sku: "elderberry" }, sequence: 4 })
+		]);
+	});
+
+	it("should only record the configured events matching the predicate", () => {
+		const emitter = createEventEmitter<CartEvents>();
+		const recorder = createEventRecorder(emitter, {
+			events: ["itemAdded", "itemRemoved"],
+			predicate: event => event.eventName === "checkout" || event.data.sku !== "apple"
+		});
+
+		emitter.emit("itemAdded", { sku: "apple", quantity: 1 });
+		emitter.emit("itemAdded", { sku: "banana", quantity: 1 });
+		emitter.emit("itemRemoved", { sku: "banana" });
+		emitter.emit("checkout", undefined);
+
+		expect(recorder.entries().map(({ eventName, sequence }) => [eventName, sequence])).toEqual([
+			["itemAdded", 0],
+			["itemRemoved", 1]
+		]);
+	});
+
+	it("should forget the recorded events when cleared", () => {
+		const emitter = createEventEmitter<CartEvents>();
+		const recorder = createEventRecorder(emitter, { capacity: 2 });
+		emitter.emit("checkout", undefined);
+		emitter.emit("checkout", undefined);
+		emitter.emit("checkout", undefined);
+
+		recorder.clear();
+		emitter.emit("itemRemoved", { sku: "apple" });
+
+		expect(recorder.entries()).toEqual([expect.objectContaining({ eventName: "itemRemoved", sequence: 3 })]);
+	});
+
+	it("should stop recording while the emitter keeps working", () => {
+		const emitter = createEventEmitter<CartEvents>();
+		const recorder = createEventRecorder(emitter);
+		const logCheckout = jest.fn();
+		emitter.subscribe("checkout", logCheckout);
+
+		expect(recorder.stop()).toBe(true);
+		expect(recorder.stop()).toBe(false);
+		emitter.emit("checkout", undefined);
+
+		expect(recorder.entries()).toEqual([]);
+		expect(logCheckout).toHaveBeenCalledTimes(1);
+	});
+
+	it("should export the recorded events to JSON and import them back", () => {
+		const clock = createManualClock();
+		const emitter = createEventEmitter<CartEvents>();
+		const recorder = createEventRecorder(emitter, { clock });
+		emitter.emit("itemAdded", { sku: "apple", quantity: 2 });
+		emitter.emit("itemRemoved", { sku: "apple" });
+		const json = recorder.exportJSON();
+		const otherEmitter = createEventEmitter<CartEvents>();
+		const otherRecorder = createEventRecorder(otherEmitter, { capacity: 1, clock });
+		otherEmitter.emit("checkout", undefined);
+
+		otherRecorder.importJSON(json);
+
+		expect(JSON.parse(json)).toEqual(recorder.entries());
+		expect(otherRecorder.entries()).toEqual([recorder.entries()[1]]);
+		otherEmitter.emit("checkout", undefined);
+		expect(otherRecorder.entries()).toEqual([
+			{ eventName: "checkout", data: undefined, timestamp: 0, sequence: 2 }
+		]);
+	});
+
+	it("should throw a `TypeError` when importing JSON which isn't a recording", () => {
+		const recorder = createEventRecorder(createEventEmitter<CartEvents>());
+
+		expect(() => recorder.importJSON('{ "eventName": "checkout" }')).toThrow(
+			new TypeError("The JSON string isn't a recording of events")
+		);
+		expect(() => recorder.importJSON('[{ "eventName": "checkout", "timestamp": 0 }]')).toThrow(TypeError);
+		expect(() => recorder.importJSON("[null]")).toThrow(TypeError);
+	});
+});
+
+describe("replayEvents", () => {
+	const recording: RecordedEvent<CartEvents>[] = [
+		{ eventName: "itemAdded", data: { sku: "apple", quantity: 2 }, timestamp: 1000, sequence: 0 },
+		{ eventName: "itemRemoved", data: { sku: "apple" }, timestamp: 1250, sequence: 1 },
+		{ eventName: "itemAdded", data: { sku: "banana", quantity: 1 }, timestamp: 1250, sequence: 2 },
+		{ eventName: "checkout", data: undefined, timestamp: 2000, sequence: 3 }
+	];
+
+	it("should replay the events at once by default", async () => {
+		const clock = createManualClock();
+		const replayedEmitter = createEventEmitter<CartEvents>();
+		const logEvent = jest.fn();
+		replayedEmitter.subscribeAny(logEvent);
+
+		const replayPromise = replayEvents(replayedEmitter.emit, recording, { clock });
+
+		expect(logEvent.mock.calls).toEqual(recording.map(({ eventName, data }) => [{ eventName, data }]));
+		await replayPromise;
+		expect(clock.sleeps).toEqual([]);
+	});
+
+	it("should wait between the events as long as when they were recorded with the original timing", async () => {
+		const clock = createManualClock();
+		const replayedEmitter = createEventEmitter<CartEvents>();
+		const times: [string, number][] = [];
+		replayedEmitter.subscribeAny(({ eventName }) => {
+			times.push([eventName, clock.now()]);
+		});
+
+		await replayEvents(replayedEmitter.emit, recording, { timing: "original", clock });
+
+		expect(clock.sleeps).toEqual([250, 750]);
+		expect(times).toEqual([
+			["itemAdded", 0],
+			["itemRemoved", 250],
+			["itemAdded", 250],
+			["checkout", 1000]
+		]);
+	});
+
+	it("should wait with the system clock by default", async () => {
+		jest.useFakeTimers();
+		try {
+			const replayedEmitter = createEventEmitter<CartEvents>();
+			const logEvent = jest.fn();
+			replayedEmitter.subscribeAny(logEvent);
+
+			const replayPromise = replayEvents(replayedEmitter.emit, recording.slice(0, 2), { timing: "original" });
+			expect(logEvent).toHaveBeenCalledTimes(1);
+			await jest.advanceTimersByTimeAsync(250);
+
+			await replayPromise;
+			expect(logEvent).toHaveBeenCalledTimes(2);
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+
+	it("should stop the replay and reject with the reason of the signal when it is aborted", async () => {
+		const clock = createManualClock();
+		const controller = new AbortController();
+		const replayedEmitter = createEventEmitter<CartEvents>();
+		const logEvent = jest.fn();
+		replayedEmitter.subscribeAny(logEvent);
+		replayedEmitter.subscribe("itemRemoved", () => controller.abort(new Error("Replay stopped")));
+
+		await expect(
+			replayEvents(replayedEmitter.emit, recording, { timing: "original", clock, signal: controller.signal })
+		).rejects.toThrow("Replay stopped");
+		expect(logEvent).toHaveBeenCalledTimes(2);
+	});
+
+	it("should replay a recording into another emitter", async () => {
+		const emitter = createEventEmitter<CartEvents>();
+		const recorder = createEventRecorder(emitter);
+		emitter.emit("itemAdded", { sku: "apple", quantity: 2 });
+		emitter.emit("checkout", undefined);
+		const replayedEmitter = createEventEmitter<CartEvents>();
+		const replayedRecorder = createEventRecorder(replayedEmitter);
+
+		await replayEvents(replayedEmitter.emit, JSON.parse(recorder.exportJSON()));
+
+		expect(replayedRecorder.entries().map(({ eventName, data }) => ({ eventName, data }))).toEqual([
+			{ eventName: "itemAdded", data: { sku: "apple", quantity: 2 } },
+			{ eventName: "checkout", data: undefined }
+		]);
+	});
+});
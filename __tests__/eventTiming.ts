@@ -0,0 +1,329 @@
+import { createEventEmitter, type EventDescription } from "../src/eventEmitter";
+import { batch, debounce, throttle } from "../src/eventTiming";
+
+type PointerEvents = EventDescription<"move", { x: number }> & EventDescription<"resize", { width: number }>;
+
+const moves = (...xs: number[]): { x: number }[] => xs.map(x => ({ x }));
+
+beforeEach(() => {
+	jest.useFakeTimers();
+});
+
+afterEach(() => {
+	jest.useRealTimers();
+});
+
+describe("debounce", () => {
+	it("should call the listener with the latest payload once the events stop for the delay", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMove = jest.fn();
+		debounce(subscribe, 100)("move", logMove);
+
+		emit("move", { x: 1 });
+		jest.advanceTimersByTime(50);
+		emit("move", { x: 2 });
+		jest.advanceTimersByTime(99);
+
+		expect(logMove).not.toHaveBeenCalled();
+		jest.advanceTimersByTime(1);
+		expect(logMove.mock.calls).toEqual([["move", { x: 2 }]]);
+		emit("move", { x: 3 });
+		jest.advanceTimersByTime(100);
+		expect(logMove.mock.calls).toEqual([
+			["move", { x: 2 }],
+			["move", { x: 3 }]
+		]);
+	});
+
+	it("should accept the predicates and options of the original `subscribe` function", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMove = jest.fn();
+		debounce(subscribe, 100)("move", logMove, { predicate: ({ x }) => x < 10 });
+
+		emit("move", { x: 1 });
+		emit("move", { x: 20 });
+		jest.advanceTimersByTime(100);
+
+		expect(logMove.mock.calls).toEqual([["move", { x: 1 }]]);
+	});
+
+	it("should cancel the pending call when unsubscribed", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMove = jest.fn();
+		const unsubscribe = debounce(subscribe, 100)("move", logMove);
+
+		emit("move", { x: 1 });
+		expect(unsubscribe()).toBe(true);
+		expect(unsubscribe()).toBe(false);
+		jest.advanceTimersByTime(100);
+
+		expect(logMove).not.toHaveBeenCalled();
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it("should cancel the pending call when the signal is aborted", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const controller = new AbortController();
+		const logMove = jest.fn();
+		const unsubscribe = debounce(subscribe, 100)("move", logMove, { signal: controller.signal });
+
+		emit("move", { x: 1 });
+		controller.abort();
+		jest.advanceTimersByTime(100);
+		emit("move", { x: 2 });
+		jest.advanceTimersByTime(100);
+
+		expect(logMove).not.toHaveBeenCalled();
+		expect(jest.getTimerCount()).toBe(0);
+		expect(unsubscribe()).toBe(false);
+	});
+
+	it("should pass the errors of the delayed calls to `onError`", async () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const onError = jest.fn();
+		const error = new Error("Layout failed");
+		debounce(subscribe, 100, { onError })("move", () => {
+			throw error;
+		});
+		debounce(subscribe, 100, { onError })("resize", async () => {
+			throw error;
+		});
+
+		emit("move", { x: 1 });
+		emit("resize", { width: 100 });
+		jest.advanceTimersByTime(100);
+		await Promise.resolve();
+
+		expect(onError.mock.calls).toEqual([
+			[error, "move"],
+			[error, "resize"]
+		]);
+	});
+
+	it("should log the errors of the delayed calls without `onError`", () => {
+		const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const error = new Error("Layout failed");
+		debounce(subscribe, 100)("move", () => {
+			throw error;
+		});
+
+		emit("move", { x: 1 });
+		jest.advanceTimersByTime(100);
+
+		expect(consoleError).toHaveBeenCalledWith('Unhandled error while emitting "move"', error);
+		consoleError.mockRestore();
+	});
+});
+
+describe("throttle", () => {
+	it("should call the listener on the leading and trailing edges of the interval by default", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMove = jest.fn();
+		throttle(subscribe, 100)("move", logMove);
+
+		for (const data of moves(1, 2, 3)) {
+			emit("move", data);
+		}
+		expect(logMove.mock.calls).toEqual([["move", { x: 1 }]]);
+		jest.advanceTimersByTime(100);
+		expect(logMove.mock.calls).toEqual([
+			["move", { x: 1 }],
+			["move", { x: 3 }]
+		]);
+		emit("move", { x: 4 });
+		jest.advanceTimersByTime(99);
+		expect(logMove).toHaveBeenCalledTimes(2);
+		jest.advanceTimersByTime(1);
+		expect(logMove).toHaveBeenLastCalledWith("move", { x: 4 });
+		jest.advanceTimersByTime(100);
+		emit("move", { x: 5 });
+
+		expect(logMove).toHaveBeenCalledTimes(4);
+		expect(logMove).toHaveBeenLastCalledWith("move", { x: 5 });
+	});
+
+	it("should only call the listener on the leading edge when `trailing` is false", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMove = jest.fn();
+		throttle(subscribe, 100, { trailing: false })("move", logMove);
+
+		emit("move", { x: 1 });
+		emit("move", { x: 2 });
+		jest.advanceTimersByTime(100);
+		emit("move", { x: 3 });
+
+		expect(logMove.mock.calls).toEqual([
+			["move", { x: 1 }],
+			["move", { x: 3 }]
+		]);
+	});
+
+	it("should only call the listener on the trailing edge when `leading` is false", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMove = jest.fn();
+		throttle(subscribe, 100, { leading: false })("move", logMove);
+
+		emit("move", { x: 1 });
+		emit("move", { x: 2 });
+		expect(logMove).not.toHaveBeenCalled();
+		jest.advanceTimersByTime(100);
+		expect(logMove.mock.calls).toEqual([["move", { x: 2 }]]);
+		emit("move", { x: 3 });
+		jest.advanceTimersByTime(100);
+
+		expect(logMove.mock.calls).toEqual([
+			["move", { x: 2 }],
+			["move", { x: 3 }]
+		]);
+	});
+
+	it("should cancel the pending call when unsubscribed", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMove = jest.fn();
+		const unsubscribe = throttle(subscribe, 100)("move", logMove, ({ x }) => x > 0);
+
+		emit("move", { x: 1 });
+		emit("move", { x: 2 });
+		unsubscribe();
+		jest.advanceTimersByTime(100);
+		emit("move", { x: 3 });
+
+		expect(logMove.mock.calls).toEqual([["move", { x: 1 }]]);
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it("should cancel the pending call when the signal is aborted", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const controller = new AbortController();
+		const logMove = jest.fn();
+		throttle(subscribe, 100)("move", logMove, { signal: controller.signal });
+
+		emit("move", { x: 1 });
+		emit("move", { x: 2 });
+		controller.abort();
+		jest.advanceTimersByTime(100);
+
+		expect(logMove.mock.calls).toEqual([["move", { x: 1 }]]);
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it("should pass the errors of the trailing calls to `onError`", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const onError = jest.fn();
+		const error = new Error("Drawing failed");
+		throttle(subscribe, 100, { leading: false, onError })("move", () => {
+			throw error;
+		});
+
+		emit("move", { x: 1 });
+		jest.advanceTimersByTime(100);
+
+		expect(onError).toHaveBeenCalledWith(error, "move");
+	});
+});
+
+describe("batch", () => {
+	it("should deliver the payloads once the batch reaches its size", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMoves = jest.fn();
+		batch(subscribe, { size: 2 })("move", logMoves);
+
+		for (const data of moves(1, 2, 3, 4, 5)) {
+			emit("move", data);
+		}
+
+		expect(logMoves.mock.calls).toEqual([
+			["move", moves(1, 2)],
+			["move", moves(3, 4)]
+		]);
+	});
+
+	it("should deliver the payloads after the delay following the first payload of the batch", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMoves = jest.fn();
+		batch(subscribe, { ms: 100 })("move", logMoves);
+
+		emit("move", { x: 1 });
+		jest.advanceTimersByTime(60);
+		emit("move", { x: 2 });
+		jest.advanceTimersByTime(40);
+		emit("move", { x: 3 });
+		jest.advanceTimersByTime(100);
+
+		expect(logMoves.mock.calls).toEqual([
+			["move", moves(1, 2)],
+			["move", moves(3)]
+		]);
+	});
+
+	it("should deliver the batch at its size or after the delay, whichever comes first", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMoves = jest.fn();
+		batch(subscribe, { size: 3, ms: 100 })("move", logMoves, { predicate: ({ x }) => x % 2 === 1 });
+
+		for (const data of moves(1, 2, 3, 5, 7)) {
+			emit("move", data);
+		}
+		jest.advanceTimersByTime(99);
+		expect(logMoves.mock.calls).toEqual([["move", moves(1, 3, 5)]]);
+		jest.advanceTimersByTime(1);
+
+		expect(logMoves.mock.calls).toEqual([
+			["move", moves(1, 3, 5)],
+			["move", moves(7)]
+		]);
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it("should require a size or a delay", () => {
+		const [subscribe] = createEventEmitter<PointerEvents>();
+
+		// @ts-expect-error A batch without size nor delay would never be delivered
+		expect(() => batch(subscribe, {})).not.toThrow();
+		// @ts-expect-error The error callback alone doesn't deliver the batches
+		expect(() => batch(subscribe, { onError: jest.fn() })).not.toThrow();
+	});
+
+	it("should drop the pending batch and cancel its timer when unsubscribed", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const logMoves = jest.fn();
+		const unsubscribe = batch(subscribe, { size: 10, ms: 100 })("move", logMoves);
+
+		emit("move", { x: 1 });
+		expect(unsubscribe()).toBe(true);
+		jest.advanceTimersByTime(100);
+
+		expect(logMoves).not.toHaveBeenCalled();
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it("should drop the pending batch and cancel its timer when the signal is aborted", () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const controller = new AbortController();
+		const logMoves = jest.fn();
+		batch(subscribe, { size: 10, ms: 100 })("move", logMoves, { signal: controller.signal });
+
+		emit("move", { x: 1 });
+		controller.abort();
+		jest.advanceTimersByTime(100);
+
+		expect(logMoves).not.toHaveBeenCalled();
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it("should pass the errors of the batches delivered after the delay to `onError`", async () => {
+		const [subscribe, emit] = createEventEmitter<PointerEvents>();
+		const onError = jest.fn();
+		const error = new Error("Upload failed");
+		batch(subscribe, { ms: 100, onError })("move", async () => {
+			throw error;
+		});
+
+		emit("move", { x: 1 });
+		jest.advanceTimersByTime(100);
+		await Promise.resolve();
+
+		expect(onError).toHaveBeenCalledWith(error, "move");
+	});
+});
@@ -0,0 +1,195 @@
+import { createEventEmitter, TimeoutError, type EventDescription } from "../src/eventEmitter";
+import {
+	createRequestChannel,
+	MissingHandlerError,
+	type RequestDescription,
+	type RequestEvents
+} from "../src/requestChannel";
+
+type User = { userId: string; name: string };
+
+type AppEvents = EventDescription<"userLogin", { userId: string }>;
+
+type AppRequests = RequestDescription<"getUser", { userId: string }, User> &
+	RequestDescription<"getUserCount", void, number>;
+
+type AppBus = AppEvents & RequestEvents<AppRequests>;
+
+describe("createRequestChannel", () => {
+	afterEach(() => {
+		jest.useRealTimers();
+	});
+
+	it("should resolve the requests with the results of their handlers", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		handle("getUser", async ({ userId }) => ({ userId, name: "Alice" }));
+		handle("getUserCount", () => 1);
+
+		await expect(request("getUser", { userId: "user1" })).resolves.toEqual({ userId: "user1", name: "Alice" });
+		await expect(request("getUserCount", undefined)).resolves.toBe(1);
+	});
+
+	it("should reject the requests with the errors of their handlers", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		handle("getUser", async () => {
+			throw new Error("User not found");
+		});
+		handle("getUserCount", () => {
+			throw new Error("Database is down");
+		});
+
+		await expect(request("getUser", { userId: "user1" })).rejects.toThrow("User not found");
+		await expect(request("getUserCount", undefined)).rejects.toThrow("Database is down");
+	});
+
+	it("should reject the requests with a `MissingHandlerError` when they have no handler", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		const unhandle = handle("getUserCount", () => 1);
+
+		unhandle();
+
+		await expect(request("getUserCount", undefined)).rejects.toThrow(new MissingHandlerError("getUserCount"));
+		await expect(request("getUser", { userId: "user1" })).rejects.toMatchObject({
+			name: "MissingHandlerError",
+			requestName: "getUser"
+		});
+	});
+
+	it("should only allow one handler per request", () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle } = createRequestChannel(emitter);
+		handle("getUserCount", () => 1);
+
+		expect(() => handle("getUserCount", () => 2)).toThrow('A handler is already registered for "getUserCount"');
+		expect(() => createRequestChannel(emitter).handle("getUserCount", () => 2)).toThrow(
+			'A handler is already registered for "getUserCount"'
+		);
+	});
+
+	it("should not take the other listeners of the requests for their handlers", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		const logRequest = jest.fn();
+		emitter.subscribe("getUserCount", logRequest);
+
+		await expect(request("getUserCount", undefined)).rejects.toThrow(new MissingHandlerError("getUserCount"));
+		expect(logRequest).not.toHaveBeenCalled();
+		handle("getUserCount", () => 1);
+		await expect(createRequestChannel(emitter).request("getUserCount", undefined)).resolves.toBe(1);
+		expect(logRequest).toHaveBeenCalledTimes(1);
+	});
+
+	it("should unregister the handlers unsubscribed by `unsubscribeAll`", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		const unhandle = handle("getUserCount", () => 1);
+
+		emitter.unsubscribeAll();
+		await expect(request("getUserCount", undefined)).rejects.toThrow(new MissingHandlerError("getUserCount"));
+		handle("getUserCount", () => 2);
+		expect(unhandle()).toBe(false);
+
+		await expect(request("getUserCount", undefined)).resolves.toBe(2);
+	});
+
+	it("should not take the listeners subscribed after `unsubscribeAll` for the unsubscribed handlers", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		const logRequest = jest.fn();
+		handle("getUser", ({ userId }) => ({ userId, name: "Alice" }));
+
+		emitter.unsubscribeAll("getUser");
+		emitter.subscribe("getUser", logRequest);
+
+		await expect(request("getUser", { userId: "user1" })).rejects.toThrow(new MissingHandlerError("getUser"));
+		handle("getUser", ({ userId }) => ({ userId, name: "Bob" }));
+		await expect(request("getUser", { userId: "user1" })).resolves.toEqual({ userId: "user1", name: "Bob" });
+	});
+
+	it("should fall back on the listeners of the requests with the emitters not created by `createEventEmitter`", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel({ ...emitter, emit: emitter.emit.bind(emitter) });
+		handle("getUserCount", () => 1);
+
+		await expect(request("getUserCount", undefined)).resolves.toBe(1);
+		emitter.unsubscribeAll();
+		await expect(request("getUserCount", undefined)).rejects.toThrow(new MissingHandlerError("getUserCount"));
+	});
+
+	it("should reject the requests with a `TimeoutError` when their handler is too slow", async () => {
+		jest.useFakeTimers();
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		handle("getUserCount", () => new Promise(resolve => setTimeout(() => resolve(1), 2000)));
+
+		const countPromise = request("getUserCount", undefined, { timeout: 1000 });
+		const fastCountPromise = request("getUserCount", undefined, { timeout: 3000 });
+		jest.advanceTimersByTime(2000);
+
+		await expect(countPromise).rejects.toThrow(
+			new TimeoutError('Timed out after 1000 ms waiting for "getUserCount"', 1000)
+		);
+		await expect(fastCountPromise).resolves.toBe(1);
+		expect(jest.getTimerCount()).toBe(0);
+	});
+
+	it("should reject the requests with the reason of their signal when it is aborted", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		const controller = new AbortController();
+		handle("getUserCount", () => new Promise(() => {}));
+
+		const countPromise = request("getUserCount", undefined, { signal: controller.signal });
+		controller.abort(new Error("Navigated away"));
+
+		await expect(countPromise).rejects.toThrow("Navigated away");
+		await expect(request("getUserCount", undefined, { signal: controller.signal })).rejects.toThrow(
+			"Navigated away"
+		);
+	});
+
+	it("should reject the requests when another listener throws with the `throw` error policy", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		handle("getUserCount", () => 1);
+		emitter.subscribeAny(() => {
+			throw new Error("Logger is down");
+		});
+
+		await expect(request("getUserCount", undefined)).rejects.toThrow("Logger is down");
+	});
+
+	it("should share the emitter with the events", async () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+		const logEvent = jest.fn();
+		const logUserLogin = jest.fn();
+		emitter.subscribeAny(logEvent);
+		emitter.subscribe("userLogin", logUserLogin);
+		handle("getUser", ({ userId }) => ({ userId, name: "Alice" }));
+
+		emitter.emit("userLogin", { userId: "user1" });
+		await request("getUser", { userId: "user1" });
+
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user1" });
+		expect(logEvent).toHaveBeenCalledWith({
+			eventName: "getUser",
+			data: { params: { userId: "user1" }, respond: expect.any(Function) }
+		});
+	});
+
+	it("should type-check the requests", () => {
+		const emitter = createEventEmitter<AppBus>();
+		const { handle, request } = createRequestChannel(emitter);
+
+		// @ts-expect-error `userLogin` isn't a request
+		expect(() => handle("userLogin", () => undefined)).not.toThrow();
+		// @ts-expect-error The handler must return a user
+		handle("getUser", () => 1);
+		// @ts-expect-error The parameters must hold a user ID
+		void request("getUser", { id: "user1" }).catch(() => undefined);
+	});
+});
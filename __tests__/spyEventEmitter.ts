@@ -0,0 +1,136 @@
+import { createEventEmitter, once, TimeoutError, type EventDescription } from "../src/eventEmitter";
+import { createSpyEmitter } from "../src/spyEventEmitter";
+
+type AppEvents = EventDescription<"userLogin" | "userLogout", { userId: string }>;
+
+describe("createSpyEmitter", () => {
+	it("should record the events emitted in every way, with the data passed to the emit functions, even if swallowed", async () => {
+		const emitter = createSpyEmitter<AppEvents>({
+			middleware: [(_, data, next): void | Promise<void> => next({ userId: data.userId.toUpperCase() })]
+		});
+		const logUserLogin = jest.fn();
+		const logUserLogout = jest.fn();
+		emitter.subscribe("userLogin", logUserLogin);
+		emitter.subscribe("userLogout", logUserLogout);
+		emitter.use((eventName, data, next) => (eventName === "userLogin" ? next(data) : undefined));
+
+		emitter.emit("userLogin", { userId: "user1" });
+		emitter.emitCancelable("userLogin", { userId: "user2" });
+		await emitter.emitAsync("userLogout", { userId: "user1" });
+		await emitter.emitSerial("userLogout", { userId: "user2" });
+
+		expect(emitter.emitted).toEqual([
+			{ eventName: "userLogin", data: { userId: "user1" } },
+			{ eventName: "userLogin", data: { userId: "user2" } },
+			{ eventName: "userLogout", data: { userId: "user1" } },
+			{ eventName: "userLogout", data: { userId: "user2" } }
+		]);
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "USER1" });
+		expect(logUserLogout).not.toHaveBeenCalled();
+	});
+
+	it("should record the subscriptions", () => {
+		const emitter = createSpyEmitter<AppEvents>();
+		const logEvent = jest.fn();
+
+		emitter.subscribe("userLogin", logEvent);
+		emitter.subscribeWeak("userLogout", logEvent);
+		emitter.subscribePattern("*", logEvent);
+		emitter.subscribeAny(logEvent);
+		once(emitter.subscribe)("userLogout", logEvent);
+		emitter.emit("userLogout", { userId: "user1" });
+
+		expect(emitter.subscriptions).toEqual([
+			{ kind: "event", eventName: "userLogin" },
+			{ kind: "event", eventName: "userLogout" },
+			{ kind: "pattern", pattern: "*" },
+			{ kind: "any" },
+			{ kind: "event", eventName: "userLogout" }
+		]);
+		expect(logEvent).toHaveBeenCalledTimes(4);
+		expect(emitter.listenerCount()).toBe(4);
+	});
+
+	it("should behave as the emitter it wraps, with the same tuple and functions", () => {
+		const emitter = createSpyEmitter<AppEvents>({ sticky: { userLogin: 1 } });
+		const [subscribe, emit, unsubscribeAll] = emitter;
+		const logUserLogin = jest.fn();
+		emit("userLogin", { userId: "user1" });
+
+		subscribe("userLogin", logUserLogin);
+		emitter.clearSticky();
+		expect(emitter.eventNames()).toEqual(["userLogin"]);
+		expect(emitter.hasListeners("userLogin")).toBe(true);
+		unsubscribeAll();
+
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user1" });
+		expect(emitter.hasListeners("userLogin")).toBe(false);
+		expect(emitter.subscriptions).toEqual([{ kind: "event", eventName: "userLogin" }]);
+	});
+
+	it("should forget the recorded events and subscriptions when cleared, keeping the listeners", () => {
+		const emitter = createSpyEmitter<AppEvents>();
+		const { emitted, subscriptions } = emitter;
+		const logUserLogin = jest.fn();
+		emitter.subscribe("userLogin", logUserLogin);
+		emitter.emit("userLogin", { userId: "user1" });
+
+		emitter.clear();
+		emitter.emit("userLogin", { userId: "user2" });
+
+		expect(emitted).toEqual([{ eventName: "userLogin", data: { userId: "user2" } }]);
+		expect(subscriptions).toEqual([]);
+		expect(logUserLogin).toHaveBeenCalledTimes(2);
+	});
+
+	it("should resolve `waitForEmit` with the data of an event already emitted, matching the predicate", async () => {
+		const emitter = createSpyEmitter<AppEvents>();
+		emitter.emit("userLogin", { userId: "user1" });
+		emitter.emit("userLogin", { userId: "user2" });
+
+		await expect(emitter.waitForEmit("userLogin")).resolves.toEqual({ userId: "user1" });
+		await expect(emitter.waitForEmit("userLogin", ({ userId }) => userId === "user2")).resolves.toEqual({
+			userId: "user2"
+		});
+	});
+
+	it("should resolve `waitForEmit` with the data of the next matching event without subscribing to the emitter", async () => {
+		const emitter = createSpyEmitter<AppEvents>();
+		const userLogout = emitter.waitForEmit("userLogout", ({ userId }) => userId === "user2");
+
+		expect(emitter.listenerCount()).toBe(0);
+		emitter.emit("userLogout", { userId: "user1" });
+		await Promise.resolve().then(() => emitter.emit("userLogout", { userId: "user2" }));
+
+		await expect(userLogout).resolves.toEqual({ userId: "user2" });
+		expect(emitter.subscriptions).toEqual([]);
+	});
+
+	it("should reject `waitForEmit` with a `TimeoutError` after one second by default, or with the reason of the signal", async () => {
+		jest.useFakeTimers();
+		try {
+			const emitter = createSpyEmitter<AppEvents>();
+			const controller = new AbortController();
+			const userLogin = emitter.waitForEmit("userLogin");
+			const userLogout = emitter.waitForEmit("userLogout", undefined, {
+				timeout: 5000,
+				signal: controller.signal
+			});
+
+			jest.advanceTimersByTime(1000);
+			controller.abort(new Error("Test ended"));
+
+			await expect(userLogin).rejects.toThrow(TimeoutError);
+			await expect(userLogout).rejects.toThrow("Test ended");
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+
+	it("should not record the events of the other emitters", () => {
+		const emitter = createSpyEmitter<AppEvents>();
+		createEventEmitter<AppEvents>().emit("userLogin", { userId: "user1" });
+
+		expect(emitter.emitted).toEqual([]);
+	});
+});
@@ -0,0 +1,120 @@
+import { createStore } from "../src/store";
+
+type Settings = { user: { name: string }; theme: "light" | "dark" };
+
+const initialSettings: Settings = { user: { name: "Alice" }, theme: "light" };
+
+describe("createStore", () => {
+	it("should get the latest value set or updated", () => {
+		const store = createStore(1);
+
+		expect(store.get()).toBe(1);
+		store.set(2);
+		expect(store.get()).toBe(2);
+		store.update(value => value * 10);
+		expect(store.get()).toBe(20);
+	});
+
+	it("should notify the listeners of the changes, unless the value is the same", () => {
+		const store = createStore(1);
+		const logChange = jest.fn();
+		store.subscribe(logChange);
+
+		store.set(2);
+		store.set(2);
+		store.update(value => value + 1);
+
+		expect(logChange.mock.calls).toEqual([[{ previous: 1, current: 2 }], [{ previous: 2, current: 3 }]]);
+	});
+
+	it("should only notify the listeners of the changes of the selected part of the value", () => {
+		const store = createStore(initialSettings);
+		const logTheme = jest.fn();
+		store.subscribe(logTheme, settings => settings.theme);
+
+		store.set({ ...store.get(), user: { name: "Bob" } });
+		store.set({ ...store.get(), theme: "dark" });
+
+		expect(logTheme.mock.calls).toEqual([[{ previous: "light", current: "dark" }]]);
+	});
+
+	it("should compare the selected parts of the value with the equality function", () => {
+		const store = createStore(initialSettings);
+		const logUser = jest.fn();
+		store.subscribe(
+			logUser,
+			settings => settings.user,
+			(previous, current) => previous.name === current.name
+		);
+
+		store.set({ ...store.get(), user: { name: "Alice" } });
+		store.set({ ...store.get(), user: { name: "Bob" } });
+
+		expect(logUser.mock.calls).toEqual([[{ previous: { name: "Alice" }, current: { name: "Bob" } }]]);
+	});
+
+	it("should notify the listeners once per batch, including nested batches", () => {
+		const store = createStore(1);
+		const logChange = jest.fn();
+		store.subscribe(logChange);
+
+		store.batch(() => {
+			store.set(2);
+			store.batch(() => {
+				store.set(3);
+			});
+			expect(logChange).not.toHaveBeenCalled();
+			store.update(value => value + 1);
+		});
+		store.batch(() => {
+			store.set(5);
+			store.set(4);
+		});
+
+		expect(logChange.mock.calls).toEqual([[{ previous: 1, current: 4 }]]);
+	});
+
+	it("should notify the listeners of the changes made before a batch throws", () => {
+		const store = createStore(1);
+		const logChange = jest.fn();
+		store.subscribe(logChange);
+
+		expect(() =>
+			store.batch(() => {
+				store.set(2);
+				throw new Error("Invalid value");
+			})
+		).toThrow("Invalid value");
+
+		expect(logChange).toHaveBeenCalledWith({ previous: 1, current: 2 });
+	});
+
+	it("should stop notifying the unsubscribed listeners", () => {
+		const store = createStore(1);
+		const logChange = jest.fn();
+		const unsubscribe = store.subscribe(logChange);
+
+		store.set(2);
+		expect(unsubscribe()).toBe(true);
+		expect(unsubscribe()).toBe(false);
+		store.set(3);
+
+		expect(logChange).toHaveBeenCalledTimes(1);
+	});
+
+	it("should apply the error policy to the listeners", () => {
+		const onError = jest.fn();
+		const store = createStore(1, { onError });
+		const logChange = jest.fn();
+		const error = new Error("Render failed");
+		store.subscribe(() => {
+			throw error;
+		});
+		store.subscribe(logChange);
+
+		store.set(2);
+
+		expect(onError).toHaveBeenCalledWith(error, "change", { previous: 1, current: 2 }, expect.any(Function));
+		expect(logChange).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,184 @@
+import { createEventEmitter, type EventDescription } from "../src/eventEmitter";
+import {
+	createValidatedEventEmitter,
+	EventValidationError,
+	type EventDescriptionFromSchemas,
+	type StandardSchema,
+	type StandardSchemaResult
+} from "../src/validatedEventEmitter";
+
+const createSchema = <Output>(
+	isValid: (value: unknown) => value is Output,
+	message: string
+): StandardSchema<Output> => ({
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: (value): StandardSchemaResult<Output> =>
+			isValid(value) ? { value } : { issues: [{ message, path: ["userId"] }] }
+	}
+});
+
+const isUser = (value: unknown): value is { userId: string } =>
+	typeof value === "object" && value !== null && typeof (value as { userId?: unknown }).userId === "string";
+
+const dateSchema: StandardSchema<string, Date> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: value => ({ value: new Date(value as string) })
+	}
+};
+
+const asyncUserSchema: StandardSchema<{ userId: string }> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: async value => createSchema(isUser, "Expected a user")["~standard"].validate(value)
+	}
+};
+
+const schemas = {
+	userLogin: createSchema(isUser, "Expected a user"),
+	sessionExpired: dateSchema
+};
+
+describe("createValidatedEventEmitter", () => {
+	it("should infer the event description from the schemas", () => {
+		const events: EventDescriptionFromSchemas<typeof schemas> = {
+			userLogin: { userId: "user1" },
+			sessionExpired: new Date(0)
+		};
+		const description: EventDescription<"userLogin", { userId: string }> &
+			EventDescription<"sessionExpired", Date> = events;
+
+		expect(description).toBe(events);
+	});
+
+	it("should pass the valid data to the listeners", () => {
+		const [subscribe, emit] = createValidatedEventEmitter(schemas);
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", logUserLogin);
+
+		emit("userLogin", { userId: "user1" });
+
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user1" });
+	});
+
+	it("should pass the output of the schemas to the listeners", () => {
+		const [subscribe, emit] = createValidatedEventEmitter(schemas);
+		const logExpiration = jest.fn();
+		subscribe("sessionExpired", logExpiration);
+
+		emit("sessionExpired", <Date>(<unknown>"2024-01-01T00:00:00.000Z"));
+
+		expect(logExpiration).toHaveBeenCalledWith("sessionExpired", new Date("2024-01-01T00:00:00.000Z"));
+	});
+
+	it("should throw an `EventValidationError` before any listener runs when the data is invalid", () => {
+		const { subscribe, subscribeAny, emit } = createValidatedEventEmitter(schemas);
+		const logUserLogin = jest.fn();
+		const logEvent = jest.fn();
+		subscribe("userLogin", logUserLogin);
+		subscribeAny(logEvent);
+		const data = JSON.parse('{ "userId": 42 }');
+
+		expect(() => emit("userLogin", data)).toThrow(
+			new EventValidationError("userLogin", data, [{ message: "Expected a user" }])
+		);
+		expect(() => emit("userLogin", data)).toThrow('Invalid data for "userLogin": Expected a user');
+		expect(logUserLogin).not.toHaveBeenCalled();
+		expect(logEvent).not.toHaveBeenCalled();
+	});
+
+	it("should report the invalid data to `onInvalid` and drop the event", () => {
+		const onInvalid = jest.fn();
+		const [subscribe, emit] = createValidatedEventEmitter(schemas, { onInvalid });
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", logUserLogin);
+
+		emit("userLogin", JSON.parse('{ "userId": 42 }'));
+
+		expect(logUserLogin).not.toHaveBeenCalled();
+		expect(onInvalid).toHaveBeenCalledTimes(1);
+		const [error] = onInvalid.mock.calls[0] as [EventValidationError];
+		expect(error).toBeInstanceOf(EventValidationError);
+		expect(error.name).toBe("EventValidationError");
+		expect(error.eventName).toBe("userLogin");
+		expect(error.data).toEqual({ userId: 42 });
+		expect(error.issues).toEqual([{ message: "Expected a user", path: ["userId"] }]);
+	});
+
+	it("should reject the events without a schema", () => {
+		const onInvalid = jest.fn();
+		const { emit } = createValidatedEventEmitter(schemas, { onInvalid });
+		const emitUntyped = <(eventName: string, data: unknown) => void>emit;
+
+		emitUntyped("toString", {});
+
+		expect(onInvalid).toHaveBeenCalledWith(
+			expect.objectContaining({
+				message: 'Invalid data for "toString": No schema is defined for the "toString" event'
+			})
+		);
+	});
+
+	it("should validate the data with asynchronous schemas before the listeners run", async () => {
+		const onInvalid = jest.fn();
+		const { subscribe, emitAsync } = createValidatedEventEmitter({ userLogin: asyncUserSchema }, { onInvalid });
+		const logUserLogin = jest.fn();
+		subscribe("userLogin", logUserLogin);
+
+		await emitAsync("userLogin", { userId: "user1" });
+		await emitAsync("userLogin", JSON.parse('{ "userId": 42 }'));
+
+		expect(logUserLogin).toHaveBeenCalledTimes(1);
+		expect(logUserLogin).toHaveBeenCalledWith("userLogin", { userId: "user1" });
+		expect(onInvalid).toHaveBeenCalledTimes(1);
+	});
+
+	it("should reject the promise of `emitAsync` when an asynchronous schema reports issues", async () => {
+		const { emitAsync } = createValidatedEventEmitter({ userLogin: asyncUserSchema });
+
+		await expect(emitAsync("userLogin", JSON.parse("{}"))).rejects.toThrow(EventValidationError);
+	});
+
+	it("should pass the issues reported asynchronously for `emit` to `onUnhandledError`", async () => {
+		const onUnhandledError = jest.fn();
+		const { emit } = createValidatedEventEmitter({ userLogin: asyncUserSchema }, { onUnhandledError });
+
+		emit("userLogin", JSON.parse("{}"));
+		await new Promise(resolve => setTimeout(resolve, 1));
+
+		expect(onUnhandledError).toHaveBeenCalledWith(expect.any(EventValidationError), "userLogin");
+	});
+
+	it("should validate the data before the other middleware and keep the other options", () => {
+		const calls: unknown[] = [];
+		const [subscribe, emit] = createValidatedEventEmitter(schemas, {
+			middleware: [
+				(_, data, next): void | Promise<void> => {
+					calls.push(data);
+					return next(data);
+				}
+			],
+			sticky: { userLogin: 1 }
+		});
+
+		emit("userLogin", { userId: "user1" });
+		subscribe("userLogin", (_, data) => {
+			calls.push(data);
+		});
+
+		expect(calls).toEqual([{ userId: "user1" }, { userId: "user1" }]);
+		expect(() => emit("userLogin", JSON.parse("{}"))).toThrow(EventValidationError);
+		expect(calls).toHaveLength(2);
+	});
+
+	it("should expose the same functions as regular emitters", () => {
+		const validated = createValidatedEventEmitter(schemas);
+		const regular = createEventEmitter<EventDescriptionFromSchemas<typeof schemas>>();
+
+		expect(Object.keys(validated)).toEqual(Object.keys(regular));
+	});
+});
@@ -6,6 +6,7 @@ const config: Config = {
 	collectCoverageFrom: [
 		"<rootDir>/src/**/*.+(ts|tsx|js|cjs|jsx)",
 		"!<rootDir>/src/index.ts",
+		"!<rootDir>/src/testing.ts",
 		"!<rootDir>/src/**/*.d.ts"
 	],
 	coverageDirectory: "<rootDir>/coverage/unit/",
@@ -0,0 +1,192 @@
+import {
+	createEventEmitter,
+	type EmitMiddleware,
+	type EventDescription,
+	type EventEmitter,
+	type EventEmitterOptions,
+	type EventListener,
+	type UnsubscribeEvent
+} from "./eventEmitter";
+import { EVENT_NAME_SEPARATOR } from "./eventPattern";
+import type { UnsafeAny } from "./internal";
+
+/**
+ * Prefixes the names of the events of an event description with a segment, unless the prefix is empty.
+ *
+ * @template Event - The event description type.
+ * @template Prefix - The segment prefixing the event names.
+ *
+ * @example
+ * // { 'chat:message': { text: string } }
+ * type ChatAppEvents = PrefixedEventDescription<EventDescription<'message', { text: string }>, 'chat'>;
+ */
+export type PrefixedEventDescription<
+	Event extends EventDescription<string, UnsafeAny>,
+	Prefix extends string
+> = Prefix extends ""
+	? Event
+	: {
+			[EventType in keyof Event &
+				string as `${Prefix}${typeof EVENT_NAME_SEPARATOR}${EventType}`]: Event[EventType];
+		};
+
+/**
+ * Turns a union of function signatures into their overloads.
+ */
+type Overloads<Signature> = (Signature extends UnsafeAny ? (signature: Signature) => void : never) extends (
+	overloads: infer Overloaded
+) => void
+	? Overloaded
+	: never;
+
+/**
+ * The functions of a parent emitter used by its child emitters, which must be able to emit and subscribe to the
+ * events of the children. They are declared with an overload per event rather than with `EmitEvent` and
+ * `SubscribeEvent`, since TypeScript would compare the generic signatures of parents having more events than their
+ * children as incompatible.
+ *
+ * @template Event - The event description type of the child events, prefixed.
+ */
+export type ParentEventEmitter<Event extends EventDescription<string, UnsafeAny>> = {
+	emit: Overloads<
+		{ [EventType in keyof Event & string]: (eventName: EventType, data: Event[EventType]) => void }[keyof Event &
+			string]
+	>;
+	subscribe: Overloads<
+		{
+			[EventType in keyof Event & string]: (
+				eventName: EventType,
+				listener: EventListener<Event, EventType>
+			) => UnsubscribeEvent;
+		}[keyof Event & string]
+	>;
+};
+
+/**
+ * Options of a child emitter created with `createChildEmitter`: the options of `createEventEmitter`, the prefix of
+ * the events in the parent, and the events flowing down from the parent.
+ *
+ * @template Event - The event description type of the child.
+ * @template Prefix - The segment prefixing the names of the events in the parent.
+ */
+export type ChildEventEmitterOptions<
+	Event extends EventDescription<string, UnsafeAny>,
+	Prefix extends string = ""
+> = EventEmitterOptions<Event> & {
+	/**
+	 * The segment prefixing the names of the child events in the parent, e.g. `chat` for `message` to bubble up as
+	 * `chat:message`. The events keep their names if omitted.
+	 */
+	prefix?: Prefix;
+	/**
+	 * The names of the child events which are emitted on the child too when they are emitted on the parent, under
+	 * their prefixed name.
+	 */
+	broadcast?: readonly (keyof Event & string)[];
+};
+
+/**
+ * An emitter linked to a parent emitter, returned by `createChildEmitter`. It is a regular emitter which can also be
+ * disposed.
+ *
+ * @template Event - The event description type.
+ */
+export type ChildEventEmitter<Event extends EventDescription<string, UnsafeAny>> = EventEmitter<Event> & {
+	/**
+	 * Unsubscribes all the listeners of the child and unlinks it from its parent. Returns `false` if it was already
+	 * disposed.
+	 */
+	dispose: () => boolean;
+};
+
+/**
+ * Creates an emitter linked to a parent emitter, such as an emitter of a feature linked to the emitter of the app.
+ * The events emitted on the child bubble up to the parent, optionally prefixed, once the child listeners are called.
+ * They bubble up with the data passed on by the middleware of the options, and not at all if it swallows them. The
+ * events listed in `broadcast` flow down the other way: emitting them on the parent emits them on the child as well.
+ * An event is never passed back to the emitter it comes from, so a child doesn't receive the events it bubbles up,
+ * and doesn't bubble up the events it receives.
+ *
+ * The child event description is type-checked against the parent: its events, prefixed, must be events of the parent
+ * with compatible data. Since TypeScript infers all the type parameters or none, the prefix is given as a type
+ * argument along with the child event description. A child can be the parent of other children.
+ *
+ * @template Event - The event description type of the child.
+ * @template Prefix - The segment prefixing the names of the child events in the parent.
+ * @param parent - The parent emitter.
+ * @param options - Optional configuration: the options of `createEventEmitter`, the `prefix`, and the `broadcast`
+ * events.
+ * @returns An emitter also exposing a `dispose` function to unlink it from its parent.
+ *
+ * @example
+ * type AppEvents = EventDescription<'chat:message', { text: string }> & EventDescription<'chat:clear'>;
+ * type ChatEvents = EventDescription<'message', { text: string }> & EventDescription<'clear'>;
+ *
+ * const appEmitter = createEventEmitter<AppEvents>();
+ * const chatEmitter = createChildEmitter<ChatEvents, 'chat'>(appEmitter, { prefix: 'chat', broadcast: ['clear'] });
+ *
+ * // Emits `chat:message` on the app emitter too
+ * chatEmitter.emit('message', { text: 'Hello' });
+ *
+ * // Emits `clear` on the chat emitter too
+ * appEmitter.emit('chat:clear', undefined);
+ *
+ * // Unsubscribes the listeners of the chat emitter, whose events don't reach the app emitter anymore
+ * chatEmitter.dispose();
+ */
+export const createChildEmitter = <Event extends EventDescription<string, UnsafeAny>, Prefix extends string = "">(
+	parent: ParentEventEmitter<PrefixedEventDescription<Event, Prefix>>,
+	{ prefix, broadcast = [], middleware = [], ...options }: ChildEventEmitterOptions<Event, Prefix> = {}
+): ChildEventEmitter<Event> => {
+	// The parent emits and receives the child events under their prefixed names
+	const { emit: emitToParent, subscribe: subscribeToParent } = <
+		ParentEventEmitter<EventDescription<string, UnsafeAny>>
+	>(<unknown>parent);
+	const prefixed = (eventName: string): string =>
+		prefix ? `${prefix}${EVENT_NAME_SEPARATOR}${eventName}` : eventName;
+	// The child event being bubbled up to the parent, or received from it, which isn't passed back
+	let relayedEventName: string | undefined;
+	let disposed = false;
+
+	// Bubble an event up or pass it down, remembering it so that it isn't passed back
+	const relay = (eventName: string, emitRelayed: () => void): void => {
+		const previousEventName = relayedEventName;
+		relayedEventName = eventName;
+		try {
+			emitRelayed();
+		} finally {
+			relayedEventName = previousEventName;
+		}
+	};
+
+	const bubble: EmitMiddleware<Event> = (eventName, data, next) => {
+		const delivered = next(data);
+		if (!disposed && relayedEventName !== eventName) {
+			relay(eventName, () => emitToParent(prefixed(eventName), data));
+		}
+		return delivered;
+	};
+	const emitter = createEventEmitter<Event>({ ...options, middleware: [...middleware, bubble] });
+
+	const unsubscribes = broadcast.map(eventName =>
+		subscribeToParent(prefixed(eventName), (_, data) => {
+			if (relayedEventName !== eventName) {
+				relay(eventName, () => emitter.emit(eventName, data));
+			}
+		})
+	);
+
+	const dispose = (): boolean => {
+		if (disposed) {
+			return false;
+		}
+		disposed = true;
+		for (const unsubscribe of unsubscribes) {
+			unsubscribe();
+		}
+		emitter.unsubscribeAll();
+		return true;
+	};
+
+	return Object.assign(emitter, { dispose });
+};
@@ -0,0 +1,394 @@
+import {
+	createEventEmitter,
+	type AnyEventPredicate,
+	type EventDescription,
+	type EventEmitter,
+	type SubscribeAnyEvent,
+	type SubscribeEvent,
+	type SubscribePatternEvent,
+	type UnsubscribeAllEvents,
+	type UnsubscribeEvent
+} from "./eventEmitter";
+import type { UnsafeAny } from "./internal";
+
+/**
+ * A source of events which can be derived, such as an event emitter or a derived emitter.
+ *
+ * @template Event - The event description type.
+ */
+export type EventSource<Event extends EventDescription<string, UnsafeAny>> = Pick<EventEmitter<Event>, "subscribeAny">;
+
+/**
+ * A read-only emitter derived from other emitters with operators such as `map`, `filter` and `merge`.
+ * It is a `[subscribe, unsubscribeAll]` tuple which also exposes its functions as named properties.
+ *
+ * A derived emitter only subscribes to its sources while it has listeners, and unsubscribes from them once its last
+ * listener is unsubscribed. It passes on the events emitted by its sources from then on, so the remembered payloads
+ * of sticky events aren't replayed to its listeners.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * const [subscribe, unsubscribeAll] = pipe(appEmitter, pick('userLogin', 'userLogout'));
+ */
+export type DerivedEventEmitter<Event extends EventDescription<string, UnsafeAny>> = [
+	subscribe: SubscribeEvent<Event>,
+	unsubscribeAll: UnsubscribeAllEvents<Event>
+] &
+	Pick<
+		EventEmitter<Event>,
+		| "subscribe"
+		| "unsubscribeAll"
+		| "subscribeAny"
+		| "subscribePattern"
+		| "listenerCount"
+		| "eventNames"
+		| "hasListeners"
+	>;
+
+/**
+ * Function type deriving an emitter from a source of events, composable with `pipe`.
+ *
+ * @template SourceEvent - The event description type of the source.
+ * @template DerivedEvent - The event description type of the derived emitter.
+ */
+export type EventOperator<
+	SourceEvent extends EventDescription<string, UnsafeAny>,
+	DerivedEvent extends EventDescription<string, UnsafeAny>
+> = (source: EventSource<SourceEvent>) => DerivedEventEmitter<DerivedEvent>;
+
+/**
+ * The functions transforming the data of the events, by event name, passed to `map`.
+ *
+ * @template Event - The event description type.
+ */
+export type EventMappers<Event extends EventDescription<string, UnsafeAny>> = {
+	[EventType in keyof Event & string]?: (data: Event[EventType]) => unknown;
+};
+
+/**
+ * The event description resulting from transforming the data of some events with `map`.
+ *
+ * @template Event - The event description type.
+ * @template Mappers - The functions transforming the data of the events.
+ */
+export type MappedEvents<Event extends EventDescription<string, UnsafeAny>, Mappers extends EventMappers<Event>> = {
+	[EventType in keyof Event & string]: Mappers[EventType] extends (data: UnsafeAny) => infer Data
+		? Data
+		: Event[EventType];
+};
+
+/**
+ * The new names of the events, by their current name, passed to `rename`.
+ *
+ * @template Event - The event description type.
+ */
+export type EventRenames<Event extends EventDescription<string, UnsafeAny>> = {
+	[EventType in keyof Event & string]?: string;
+};
+
+/**
+ * The event description resulting from renaming some events with `rename`.
+ *
+ * @template Event - The event description type.
+ * @template Renames - The new names of the events.
+ */
+export type RenamedEvents<Event extends EventDescription<string, UnsafeAny>, Renames extends EventRenames<Event>> = {
+	[EventType in keyof Event & string as Renames[EventType] extends string
+		? Renames[EventType]
+		: EventType]: Event[EventType];
+};
+
+/**
+ * The event description of the emitter merging emitters with the given event descriptions.
+ *
+ * @template Events - The event description types of the merged emitters.
+ */
+export type MergedEvents<Events extends EventDescription<string, UnsafeAny>[]> = Events extends [
+	infer First extends EventDescription<string, UnsafeAny>,
+	...infer Rest extends EventDescription<string, UnsafeAny>[]
+]
+	? First & MergedEvents<Rest>
+	: EventDescription<never>;
+
+/**
+ * Function type emitting an event from a derived emitter, whose event names and data are checked by the operators.
+ */
+type DerivedEmit = (eventName: string, data: unknown) => void;
+
+/**
+ * Utility function to create an emitter deriving its events from sources, which it only subscribes to while it has
+ * listeners.
+ *
+ * @template Event - The event description type of the derived emitter.
+ * @param connect - The function subscribing to the sources, which receives the function emitting the derived events
+ * and returns a function unsubscribing from the sources.
+ * @returns The derived emitter.
+ */
+const derive = <Event extends EventDescription<string, UnsafeAny>>(
+	connect: (emit: DerivedEmit) => () => void
+): DerivedEventEmitter<Event> => {
+	const { subscribe, subscribeAny, subscribePattern, unsubscribeAll, emit, listenerCount, eventNames, hasListeners } =
+		createEventEmitter<Event>();
+	let disconnect: (() => void) | undefined;
+
+	// Unsubscribe from the sources once the last listener is gone
+	const release = (): void => {
+		if (disconnect && listenerCount() === 0) {
+			disconnect();
+			disconnect = undefined;
+		}
+	};
+
+	// Subscribe to the sources with the first listener, and release them with the last one
+	const track = (unsubscribe: UnsubscribeEvent): UnsubscribeEvent => {
+		if (!disconnect && listenerCount() > 0) {
+			// Listeners unsubscribed by their signal are only noticed once the next event is emitted
+			disconnect = connect((eventName, data) => {
+				(<DerivedEmit>emit)(eventName, data);
+				release();
+			});
+		}
+		return (): boolean => {
+			const unsubscribed = unsubscribe();
+			release();
+			return unsubscribed;
+		};
+	};
+
+	const derivedSubscribe: SubscribeEvent<Event> = (eventName, listener, predicateOrOptions) =>
+		track(subscribe(eventName, listener, predicateOrOptions));
+	const derivedSubscribeAny: SubscribeAnyEvent<Event> = (listener, predicateOrOptions) =>
+		track(subscribeAny(listener, predicateOrOptions));
+	const derivedSubscribePattern: SubscribePatternEvent<Event> = (pattern, listener, predicateOrOptions) =>
+		track(subscribePattern(pattern, listener, predicateOrOptions));
+	const derivedUnsubscribeAll: UnsubscribeAllEvents<Event> = eventName => {
+		unsubscribeAll(eventName);
+		release();
+	};
+
+	const functions = {
+		subscribe: derivedSubscribe,
+		unsubscribeAll: derivedUnsubscribeAll,
+		subscribeAny: derivedSubscribeAny,
+		subscribePattern: derivedSubscribePattern,
+		listenerCount,
+		eventNames,
+		hasListeners
+	};
+	return Object.assign<[SubscribeEvent<Event>, UnsubscribeAllEvents<Event>], typeof functions>(
+		[derivedSubscribe, derivedUnsubscribeAll],
+		functions
+	);
+};
+
+/**
+ * Creates an operator keeping the events matching a predicate.
+ *
+ * @template Event - The event description type.
+ * @param predicate - The predicate receiving the `{ eventName, data }` of the events to keep.
+ * @returns An operator deriving an emitter with the matching events.
+ *
+ * @example
+ * const failures = pipe(
+ *   requestEmitter,
+ *   filter(event => event.eventName === 'requestCompleted' && event.data.status >= 500)
+ * );
+ */
+export const filter =
+	<Event extends EventDescription<string, UnsafeAny>>(
+		predicate: AnyEventPredicate<Event>
+	): EventOperator<Event, Event> =>
+	source =>
+		derive(emit => source.subscribeAny(({ eventName, data }) => emit(eventName, data), predicate));
+
+/**
+ * Creates an operator keeping some events, whose names are checked against the source.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The names of the events to keep.
+ * @param eventNames - The names of the events to keep.
+ * @returns An operator deriving an emitter with the given events only.
+ *
+ * @example
+ * const userEvents = pipe(appEmitter, pick('userLogin', 'userLogout'));
+ */
+export const pick =
+	<Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string>(
+		...eventNames: EventType[]
+	): EventOperator<Event, Pick<Event, EventType>> =>
+	source =>
+		derive(emit =>
+			source.subscribeAny(
+				({ eventName, data }) => emit(eventName, data),
+				({ eventName }) => (<string[]>eventNames).includes(eventName)
+			)
+		);
+
+/**
+ * Creates an operator renaming some events. The events which aren't renamed keep their names.
+ *
+ * @template Event - The event description type.
+ * @template Renames - The new names of the events.
+ * @param renames - The new names of the events, by their current name.
+ * @returns An operator deriving an emitter with the renamed events.
+ *
+ * @example
+ * // Expose `userLogin` and `userLogout` as `login` and `logout`
+ * const sessionEvents = pipe(appEmitter, pick('userLogin', 'userLogout'), rename({ userLogin: 'login', userLogout: 'logout' }));
+ */
+export const rename =
+	<Event extends EventDescription<string, UnsafeAny>, const Renames extends EventRenames<Event>>(
+		renames: Renames
+	): EventOperator<Event, RenamedEvents<Event, Renames>> =>
+	source =>
+		derive(emit =>
+			source.subscribeAny(({ eventName, data }) =>
+				// Ignore the properties inherited by the map, since events may be named after them
+				emit(Object.prototype.hasOwnProperty.call(renames, eventName) ? renames[eventName]! : eventName, data)
+			)
+		);
+
+/**
+ * Creates an operator transforming the data of some events. The data of the other events is passed on as is.
+ *
+ * @template Event - The event description type.
+ * @template Mappers - The functions transforming the data of the events.
+ * @param mappers - The functions transforming the data of the events, by event name.
+ * @returns An operator deriving an emitter with the transformed data.
+ *
+ * @example
+ * // Only pass the ID of the users on
+ * const userIds = pipe(appEmitter, pick('userLogin', 'userLogout'), map({ userLogin: data => data.userId, userLogout: data => data.userId }));
+ */
+export const map =
+	<Event extends EventDescription<string, UnsafeAny>, Mappers extends EventMappers<Event>>(
+		mappers: Mappers
+	): EventOperator<Event, MappedEvents<Event, Mappers>> =>
+	source =>
+		derive(emit =>
+			source.subscribeAny(({ eventName, data }) => {
+				const mapper = Object.prototype.hasOwnProperty.call(mappers, eventName)
+					? mappers[eventName]
+					: undefined;
+				emit(eventName, mapper ? mapper(data) : data);
+			})
+		);
+
+/**
+ * Derives an emitter from several sources, passing the events of all of them on. Its event description is the
+ * intersection of the event descriptions of the sources.
+ *
+ * @template Events - The event description types of the sources.
+ * @param sources - The sources to merge.
+ * @returns A derived emitter with the events of all the sources.
+ *
+ * @example
+ * const [subscribe] = merge(authEmitter, cartEmitter);
+ *
+ * subscribe('userLogin', greetUser);
+ * subscribe('checkout', showReceipt);
+ */
+export const merge = <Events extends EventDescription<string, UnsafeAny>[]>(
+	...sources: { [Index in keyof Events]: EventSource<Events[Index]> }
+): DerivedEventEmitter<MergedEvents<Events>> =>
+	derive<MergedEvents<Events>>(emit => {
+		const unsubscribes = sources.map(source =>
+			(<EventSource<EventDescription<string, unknown>>>source).subscribeAny(({ eventName, data }) =>
+				emit(eventName, data)
+			)
+		);
+		return () => {
+			for (const unsubscribe of unsubscribes) {
+				unsubscribe();
+			}
+		};
+	});
+
+/**
+ * Function type deriving an emitter from a source by applying operators one after the other, with up to 5 operators.
+ */
+export type PipeOperators = {
+	<A extends EventDescription<string, UnsafeAny>, B extends EventDescription<string, UnsafeAny>>(
+		source: EventSource<A>,
+		operator1: EventOperator<A, B>
+	): DerivedEventEmitter<B>;
+	<
+		A extends EventDescription<string, UnsafeAny>,
+		B extends EventDescription<string, UnsafeAny>,
+		C extends EventDescription<string, UnsafeAny>
+	>(
+		source: EventSource<A>,
+		operator1: EventOperator<A, B>,
+		operator2: EventOperator<B, C>
+	): DerivedEventEmitter<C>;
+	<
+		A extends EventDescription<string, UnsafeAny>,
+		B extends EventDescription<string, UnsafeAny>,
+		C extends EventDescription<string, UnsafeAny>,
+		D extends EventDescription<string, UnsafeAny>
+	>(
+		source: EventSource<A>,
+		operator1: EventOperator<A, B>,
+		operator2: EventOperator<B, C>,
+		operator3: EventOperator<C, D>
+	): DerivedEventEmitter<D>;
+	<
+		A extends EventDescription<string, UnsafeAny>,
+		B extends EventDescription<string, UnsafeAny>,
+		C extends EventDescription<string, UnsafeAny>,
+		D extends EventDescription<string, UnsafeAny>,
+		E extends EventDescription<string, UnsafeAny>
+	>(
+		source: EventSource<A>,
+		operator1: EventOperator<A, B>,
+		operator2: EventOperator<B, C>,
+		operator3: EventOperator<C, D>,
+		operator4: EventOperator<D, E>
+	): DerivedEventEmitter<E>;
+	<
+		A extends EventDescription<string, UnsafeAny>,
+		B extends EventDescription<string, UnsafeAny>,
+		C extends EventDescription<string, UnsafeAny>,
+		D extends EventDescription<string, UnsafeAny>,
+		E extends EventDescription<string, UnsafeAny>,
+		F extends EventDescription<string, UnsafeAny>
+	>(
+		source: EventSource<A>,
+		operator1: EventOperator<A, B>,
+		operator2: EventOperator<B, C>,
+		operator3: EventOperator<C, D>,
+		operator4: EventOperator<D, E>,
+		operator5: EventOperator<E, F>
+	): DerivedEventEmitter<F>;
+};
+
+/**
+ * Derives an emitter from a source by applying operators one after the other. The event description of the derived
+ * emitter is computed from the operators, whose arguments are checked against the events they receive.
+ *
+ * @param source - The source of the events.
+ * @param operators - The operators to apply, in order.
+ * @returns The derived emitter returned by the last operator.
+ *
+ * @example
+ * type AppEvents = EventDescription<'userLogin' | 'userLogout', { userId: string; timestamp: Date }> &
+ *   EventDescription<'checkout', { total: number }>;
+ *
+ * const appEmitter = createEventEmitter<AppEvents>();
+ *
+ * // A `{ login: string; logout: string }` emitter, which only subscribes to `appEmitter` while it has listeners
+ * const sessionEvents = pipe(
+ *   appEmitter,
+ *   pick('userLogin', 'userLogout'),
+ *   map({ userLogin: data => data.userId, userLogout: data => data.userId }),
+ *   rename({ userLogin: 'login', userLogout: 'logout' })
+ * );
+ *
+ * sessionEvents.subscribe('login', (eventName, userId) => console.log(`${userId} logged in`));
+ */
+export const pipe: PipeOperators = (
+	source: EventSource<UnsafeAny>,
+	...operators: EventOperator<UnsafeAny, UnsafeAny>[]
+): DerivedEventEmitter<UnsafeAny> =>
+	<DerivedEventEmitter<UnsafeAny>>operators.reduce((derived, operator) => operator(derived), source);
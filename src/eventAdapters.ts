@@ -0,0 +1,504 @@
+import {
+	createEventEmitter,
+	type EmitEvent,
+	type EventDescription,
+	type EventEmitter,
+	type EventEmitterOptions,
+	type SubscribeEvent,
+	type UnsubscribeAllEvents
+} from "./eventEmitter";
+import { type UnsafeAny, unsubscribeNothing } from "./internal";
+
+/**
+ * The DOM event carrying the data of an event: the data itself if it is already a DOM event, such as a `MouseEvent`,
+ * or a `CustomEvent` holding it in its `detail` property otherwise.
+ *
+ * @template Data - The data of the event.
+ */
+export type DOMEventOf<Data> = Data extends globalThis.Event ? Data : globalThis.Event & { readonly detail: Data };
+
+/**
+ * Type for the listeners of a typed `EventTarget`: a function or an object with a `handleEvent` method.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ */
+export type TypedEventListener<
+	Event extends EventDescription<string, UnsafeAny>,
+	EventType extends keyof Event & string = keyof Event & string
+> = ((event: DOMEventOf<Event[EventType]>) => void) | { handleEvent: (event: DOMEventOf<Event[EventType]>) => void };
+
+/**
+ * Options of the listeners added to a typed `EventTarget`. The `capture` and `passive` options have no effect, since
+ * the events don't propagate and listeners calling `preventDefault` are always allowed to.
+ */
+export type TypedEventListenerOptions = {
+	capture?: boolean;
+	/**
+	 * Whether to remove the listener after its first call.
+	 */
+	once?: boolean;
+	passive?: boolean;
+	/**
+	 * A signal removing the listener when it is aborted.
+	 */
+	signal?: AbortSignal;
+};
+
+/**
+ * An `EventTarget` whose event names and listeners are typed with an event description, returned by `toEventTarget`.
+ *
+ * @template Event - The event description type.
+ */
+export type TypedEventTarget<Event extends EventDescription<string, UnsafeAny>> = {
+	addEventListener<EventType extends keyof Event & string>(
+		type: EventType,
+		listener: TypedEventListener<Event, EventType> | null,
+		options?: boolean | TypedEventListenerOptions
+	): void;
+	removeEventListener<EventType extends keyof Event & string>(
+		type: EventType,
+		listener: TypedEventListener<Event, EventType> | null,
+		options?: boolean | Pick<TypedEventListenerOptions, "capture">
+	): void;
+	dispatchEvent(event: globalThis.Event): boolean;
+};
+
+/**
+ * Type for the listeners of a Node.js-style emitter, which receive the data of the event.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ */
+export type NodeEventListener<
+	Event extends EventDescription<string, UnsafeAny>,
+	EventType extends keyof Event & string = keyof Event & string
+> = (data: Event[EventType]) => void;
+
+/**
+ * An emitter with the API of the Node.js `EventEmitter`, whose event names and listeners are typed with an event
+ * description, returned by `toNodeEventEmitter`.
+ *
+ * @template Event - The event description type.
+ */
+export type NodeStyleEventEmitter<Event extends EventDescription<string, UnsafeAny>> = {
+	on<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: NodeEventListener<Event, EventType>
+	): NodeStyleEventEmitter<Event>;
+	addListener<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: NodeEventListener<Event, EventType>
+	): NodeStyleEventEmitter<Event>;
+	once<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: NodeEventListener<Event, EventType>
+	): NodeStyleEventEmitter<Event>;
+	off<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: NodeEventListener<Event, EventType>
+	): NodeStyleEventEmitter<Event>;
+	removeListener<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: NodeEventListener<Event, EventType>
+	): NodeStyleEventEmitter<Event>;
+	removeAllListeners(eventName?: keyof Event & string): NodeStyleEventEmitter<Event>;
+	/**
+	 * Emits an event, returning whether it had listeners.
+	 */
+	emit<EventType extends keyof Event & string>(eventName: EventType, data: Event[EventType]): boolean;
+	listenerCount(eventName: keyof Event & string): number;
+	eventNames(): (keyof Event & string)[];
+};
+
+/**
+ * An emitter with the API of the Node.js `EventEmitter`, such as an `EventEmitter`, a stream, or a child process.
+ */
+export type NodeEventEmitterLike = {
+	on(eventName: string, listener: (...parameters: UnsafeAny[]) => void): unknown;
+	off(eventName: string, listener: (...parameters: UnsafeAny[]) => void): unknown;
+	emit(eventName: string, ...parameters: UnsafeAny[]): unknown;
+};
+
+/**
+ * A zohar emitter wrapping an existing `EventTarget` or Node.js `EventEmitter`, returned by `fromEventTarget` and
+ * `fromNodeEventEmitter`. It is a `[subscribe, emit, unsubscribeAll]` tuple which also exposes its functions as
+ * named properties.
+ *
+ * @template Event - The event description type.
+ */
+export type AdaptedEventEmitter<Event extends EventDescription<string, UnsafeAny>> = [
+	subscribe: SubscribeEvent<Event>,
+	emit: EmitEvent<Event>,
+	unsubscribeAll: UnsubscribeAllEvents<Event>
+] &
+	Pick<EventEmitter<Event>, "subscribe" | "emit" | "unsubscribeAll">;
+
+/**
+ * Options of `fromEventTarget` and `fromNodeEventEmitter`: how the adapted emitter deals with throwing listeners.
+ *
+ * @template Event - The event description type.
+ */
+export type AdaptedEventEmitterOptions<Event extends EventDescription<string, UnsafeAny>> = Pick<
+	EventEmitterOptions<Event>,
+	"errorPolicy" | "onError"
+>;
+
+/**
+ * Utility function to take the data of a DOM event: the `detail` of a `CustomEvent`, or the event itself otherwise.
+ *
+ * @param event - The DOM event.
+ * @returns The data of the event.
+ */
+const dataOf = (event: globalThis.Event): unknown =>
+	// Only the `detail` of a `CustomEvent` is data, as the `UIEvent`s have a `detail` of their own
+	// eslint-disable-next-line n/no-unsupported-features/node-builtins -- Available in the browsers and Node.js 19+
+	typeof CustomEvent === "function" && event instanceof CustomEvent ? (<DOMEventOf<unknown>>event).detail : event;
+
+/**
+ * Utility function to create the DOM event carrying the data of an event, unless the data already is a DOM event.
+ *
+ * @param eventName - The name of the event.
+ * @param data - The data of the event.
+ * @returns The DOM event carrying the data.
+ */
+const eventOf = (eventName: string, data: unknown): globalThis.Event =>
+	data instanceof globalThis.Event
+		? data
+		: // eslint-disable-next-line n/no-unsupported-features/node-builtins -- Available in the browsers and Node.js 19+
+			new CustomEvent(eventName, { detail: data });
+
+/**
+ * Wraps an emitter as an `EventTarget` typed with its event description, for the code expecting
+ * `addEventListener`, `removeEventListener` and `dispatchEvent`.
+ *
+ * The listeners receive the data of the events as DOM events: the data itself if it is already a DOM event, or a
+ * `CustomEvent` holding it in its `detail` property otherwise. `dispatchEvent` emits the event with this data, and
+ * passes the dispatched event as is to the listeners. As with an `EventTarget`, a listener is only added once per
+ * event name, whatever its `capture` option, and the `once` and `signal` options are supported. The events don't
+ * propagate, so their `target` isn't set.
+ *
+ * @template Event - The event description type.
+ * @param emitter - The emitter to wrap.
+ * @returns An `EventTarget` subscribing its listeners to the emitter and emitting the dispatched events.
+ *
+ * @example
+ * type PlayerEvents = EventDescription<'play' | 'pause', { position: number }>;
+ *
+ * const emitter = createEventEmitter<PlayerEvents>();
+ * const target = toEventTarget(emitter);
+ *
+ * target.addEventListener('play', event => console.log(event.detail.position));
+ * target.dispatchEvent(new CustomEvent('pause', { detail: { position: 42 } }));
+ */
+export const toEventTarget = <Event extends EventDescription<string, UnsafeAny>>(
+	emitter: Pick<EventEmitter<Event>, "subscribe" | "emit">
+): TypedEventTarget<Event> => {
+	const { subscribe, emit } = emitter;
+	// The functions removing the listeners, by event name and listener
+	const registrations = new Map<string, Map<unknown, () => void>>();
+	// The event being dispatched, passed as is to the listeners rather than a new event carrying the same data
+	let dispatchedEvent: globalThis.Event | undefined;
+
+	const target: TypedEventTarget<Event> = {
+		addEventListener: (type, listener, options) => {
+			const { once = false, signal }: TypedEventListenerOptions = typeof options === "object" ? options : {};
+			const listeners = registrations.get(type) ?? new Map<unknown, () => void>();
+			if (!listener || listeners.has(listener) || signal?.aborted) {
+				return;
+			}
+			registrations.set(type, listeners);
+
+			// Replaced once subscribed, since the replayed payloads of a sticky event trigger the listener beforehand
+			let unsubscribe = unsubscribeNothing;
+			const remove = (): void => {
+				if (listeners.get(listener) === remove) {
+					listeners.delete(listener);
+				}
+				unsubscribe();
+			};
+			listeners.set(listener, remove);
+			unsubscribe = subscribe(type, (eventName, data) => {
+				if (listeners.get(listener) !== remove) {
+					return;
+				}
+				if (once) {
+					remove();
+				}
+				const event = <DOMEventOf<Event[typeof type]>>(
+					(dispatchedEvent?.type === eventName && dataOf(dispatchedEvent) === data
+						? dispatchedEvent
+						: eventOf(eventName, data))
+				);
+				if (typeof listener === "function") {
+					listener.call(target, event);
+				} else {
+					listener.handleEvent(event);
+				}
+			});
+			if (listeners.get(listener) !== remove) {
+				unsubscribe();
+			}
+			signal?.addEventListener("abort", remove, { once: true });
+		},
+		removeEventListener: (type, listener) => {
+			registrations.get(type)?.get(listener)?.();
+		},
+		dispatchEvent: event => {
+			const previousEvent = dispatchedEvent;
+			dispatchedEvent = event;
+			try {
+				emit(event.type, <Event[keyof Event & string]>dataOf(event));
+			} finally {
+				dispatchedEvent = previousEvent;
+			}
+			return !event.defaultPrevented;
+		}
+	};
+	return target;
+};
+
+/**
+ * Wraps an emitter as an object with the API of the Node.js `EventEmitter`, typed with its event description, for
+ * the code expecting `on`, `off` and `emit`.
+ *
+ * The listeners receive the data of the events, with the wrapper as `this`. As with an `EventEmitter`, a listener
+ * added several times is called as many times, and `off` removes the last time it was added. `emit` returns whether
+ * the event had listeners, including the ones subscribed to the emitter directly, while `removeAllListeners` only
+ * removes the listeners added through the wrapper.
+ *
+ * @template Event - The event description type.
+ * @param emitter - The emitter to wrap.
+ * @returns An object with the API of the Node.js `EventEmitter`, subscribing its listeners to the emitter.
+ *
+ * @example
+ * type JobEvents = EventDescription<'progress', number> & EventDescription<'done'>;
+ *
+ * const emitter = createEventEmitter<JobEvents>();
+ * const legacyEmitter = toNodeEventEmitter(emitter);
+ *
+ * legacyEmitter.on('progress', percent => console.log(`${percent}%`)).once('done', () => console.log('Done'));
+ * legacyEmitter.emit('progress', 50);
+ */
+export const toNodeEventEmitter = <Event extends EventDescription<string, UnsafeAny>>(
+	emitter: Pick<EventEmitter<Event>, "subscribe" | "emit" | "listenerCount" | "eventNames" | "hasListeners">
+): NodeStyleEventEmitter<Event> => {
+	const { subscribe, emit, listenerCount, eventNames, hasListeners } = emitter;
+	// The listeners and the functions removing them, by event name, in the order they were added
+	const registrations = new Map<string, { listener: unknown; remove: () => void }[]>();
+
+	const addListener = <EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: NodeEventListener<Event, EventType>,
+		once: boolean
+	): NodeStyleEventEmitter<Event> => {
+		const listeners = registrations.get(eventName) ?? [];
+		registrations.set(eventName, listeners);
+
+		// Replaced once subscribed, since the replayed payloads of a sticky event trigger the listener beforehand
+		let unsubscribe = unsubscribeNothing;
+		const registration = {
+			listener,
+			remove: (): void => {
+				const index = listeners.indexOf(registration);
+				if (index !== -1) {
+					listeners.splice(index, 1);
+				}
+				unsubscribe();
+			}
+		};
+		listeners.push(registration);
+		unsubscribe = subscribe(eventName, (_, data) => {
+			if (!listeners.includes(registration)) {
+				return;
+			}
+			if (once) {
+				registration.remove();
+			}
+			listener.call(nodeEmitter, data);
+		});
+		if (!listeners.includes(registration)) {
+			unsubscribe();
+		}
+		return nodeEmitter;
+	};
+
+	const removeListener = <EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: NodeEventListener<Event, EventType>
+	): NodeStyleEventEmitter<Event> => {
+		const listeners = registrations.get(eventName) ?? [];
+		[...listeners]
+			.reverse()
+			.find(registration => registration.listener === listener)
+			?.remove();
+		return nodeEmitter;
+	};
+
+	const nodeEmitter: NodeStyleEventEmitter<Event> = {
+		on: (eventName, listener) => addListener(eventName, listener, false),
+		addListener: (eventName, listener) => addListener(eventName, listener, false),
+		once: (eventName, listener) => addListener(eventName, listener, true),
+		off: removeListener,
+		removeListener,
+		removeAllListeners: eventName => {
+			// Only remove the listeners added through this wrapper, not the other listeners of the emitter
+			const listeners =
+				eventName === undefined ? [...registrations.values()] : [registrations.get(eventName) ?? []];
+			for (const registration of listeners.flat()) {
+				registration.remove();
+			}
+			return nodeEmitter;
+		},
+		emit: (eventName, data) => {
+			const hadListeners = hasListeners(eventName);
+			emit(eventName, data);
+			return hadListeners;
+		},
+		listenerCount: eventName => listenerCount(eventName),
+		eventNames: () => eventNames()
+	};
+	return nodeEmitter;
+};
+
+/**
+ * Utility function to create a zohar emitter on top of an existing emitter. It only listens to an event of the
+ * existing emitter while it has listeners subscribed to this event, and stops with the last of them. Listeners
+ * unsubscribed by their signal are only noticed once the next event is emitted.
+ *
+ * @template Event - The event description type.
+ * @param listen - Function listening to an event of the existing emitter, which returns a function to stop.
+ * @param dispatch - Function emitting an event with the existing emitter.
+ * @param options - How the emitter deals with throwing listeners.
+ * @returns A `[subscribe, emit, unsubscribeAll]` tuple also exposing its functions as named properties.
+ */
+const adapt = <Event extends EventDescription<string, UnsafeAny>>(
+	listen: (eventName: keyof Event & string, relay: (data: Event[keyof Event & string]) => void) => () => void,
+	dispatch: (eventName: keyof Event & string, data: Event[keyof Event & string]) => void,
+	options: AdaptedEventEmitterOptions<Event>
+): AdaptedEventEmitter<Event> => {
+	const { subscribe, emit, unsubscribeAll, eventNames } = createEventEmitter<Event>(options);
+	// The functions to stop listening to the events of the existing emitter, by event name
+	const relays = new Map<keyof Event & string, () => void>();
+
+	// Stop listening to the events which lost their listeners
+	const release = (): void => {
+		const subscribedEventNames = eventNames();
+		for (const [eventName, stopListening] of relays) {
+			if (!subscribedEventNames.includes(eventName)) {
+				stopListening();
+				relays.delete(eventName);
+			}
+		}
+	};
+
+	const adaptedSubscribe: SubscribeEvent<Event> = (eventName, listener, predicateOrOptions) => {
+		const unsubscribe = subscribe(eventName, listener, predicateOrOptions);
+		if (!relays.has(eventName) && eventNames().includes(eventName)) {
+			relays.set(
+				eventName,
+				listen(eventName, data => {
+					emit(eventName, data);
+					release();
+				})
+			);
+		}
+		return (): boolean => {
+			const unsubscribed = unsubscribe();
+			release();
+			return unsubscribed;
+		};
+	};
+	const adaptedEmit: EmitEvent<Event> = (eventName, data) => dispatch(eventName, data);
+	const adaptedUnsubscribeAll: UnsubscribeAllEvents<Event> = eventName => {
+		unsubscribeAll(eventName);
+		release();
+	};
+
+	const functions = { subscribe: adaptedSubscribe, emit: adaptedEmit, unsubscribeAll: adaptedUnsubscribeAll };
+	return Object.assign<[SubscribeEvent<Event>, EmitEvent<Event>, UnsubscribeAllEvents<Event>], typeof functions>(
+		[adaptedSubscribe, adaptedEmit, adaptedUnsubscribeAll],
+		functions
+	);
+};
+
+/**
+ * Wraps an existing `EventTarget`, such as a DOM element, a `WebSocket` or an `AbortSignal`, as a zohar emitter typed
+ * with an explicit event description.
+ *
+ * The listeners receive the `detail` of the `CustomEvent`s, and the other events as they are. `emit` dispatches the
+ * data as is if it is a DOM event, or in the `detail` of a new `CustomEvent` otherwise. The adapted emitter supports
+ * the predicates, priorities and signals of zohar subscriptions. It only listens to an event of the target while it
+ * has listeners subscribed to this event.
+ *
+ * @template Event - The event description type.
+ * @param target - The `EventTarget` to wrap.
+ * @param options - How the adapted emitter deals with throwing listeners.
+ * @returns A `[subscribe, emit, unsubscribeAll]` tuple also exposing its functions as named properties.
+ *
+ * @example
+ * type SocketEvents = EventDescription<'open', Event> & EventDescription<'message', MessageEvent<string>>;
+ *
+ * const [subscribe] = fromEventTarget<SocketEvents>(new WebSocket('wss://example.com'));
+ *
+ * subscribe('message', (eventName, event) => console.log(event.data), {
+ *   predicate: event => event.data !== 'ping'
+ * });
+ */
+export const fromEventTarget = <
+	Event extends EventDescription<string, UnsafeAny> = EventDescription<string, UnsafeAny>
+>(
+	target: EventTarget,
+	options: AdaptedEventEmitterOptions<Event> = {}
+): AdaptedEventEmitter<Event> =>
+	adapt<Event>(
+		(eventName, relay) => {
+			const listener = (event: globalThis.Event): void => relay(<Event[keyof Event & string]>dataOf(event));
+			target.addEventListener(eventName, listener);
+			return (): void => target.removeEventListener(eventName, listener);
+		},
+		(eventName, data) => {
+			target.dispatchEvent(eventOf(eventName, data));
+		},
+		options
+	);
+
+/**
+ * Wraps an existing Node.js `EventEmitter`, or any emitter with its `on`, `off` and `emit` methods, as a zohar emitter
+ * typed with an explicit event description.
+ *
+ * The listeners receive the first argument the events are emitted with, and `emit` emits the data as the only
+ * argument. The adapted emitter supports the predicates, priorities and signals of zohar subscriptions. It only
+ * listens to an event of the wrapped emitter while it has listeners subscribed to this event.
+ *
+ * @template Event - The event description type.
+ * @param nodeEmitter - The emitter to wrap.
+ * @param options - How the adapted emitter deals with throwing listeners.
+ * @returns A `[subscribe, emit, unsubscribeAll]` tuple also exposing its functions as named properties.
+ *
+ * @example
+ * type ProcessEvents = EventDescription<'exit', number> & EventDescription<'warning', Error>;
+ *
+ * const [subscribe] = fromNodeEventEmitter<ProcessEvents>(process);
+ *
+ * subscribe('warning', (eventName, warning) => reportWarning(warning));
+ */
+export const fromNodeEventEmitter = <
+	Event extends EventDescription<string, UnsafeAny> = EventDescription<string, UnsafeAny>
+>(
+	nodeEmitter: NodeEventEmitterLike,
+	options: AdaptedEventEmitterOptions<Event> = {}
+): AdaptedEventEmitter<Event> =>
+	adapt<Event>(
+		(eventName, relay) => {
+			const listener = (data: Event[keyof Event & string]): void => relay(data);
+			nodeEmitter.on(eventName, listener);
+			return (): void => {
+				nodeEmitter.off(eventName, listener);
+			};
+		},
+		(eventName, data) => {
+			nodeEmitter.emit(eventName, data);
+		},
+		options
+	);
@@ -0,0 +1,221 @@
+import type { EventDescription, EventEmitter, UnsubscribeEvent } from "./eventEmitter";
+import type { UnsafeAny } from "./internal";
+
+/**
+ * A `postMessage`-style port, such as a `MessagePort`, a `BroadcastChannel`, a `Worker`, the global scope of a web
+ * worker, or a Node.js `worker_threads` `MessagePort`.
+ */
+export type BridgePort = {
+	postMessage(message: unknown): void;
+	addEventListener(type: "message", listener: (event: UnsafeAny) => void): void;
+	removeEventListener(type: "message", listener: (event: UnsafeAny) => void): void;
+	/**
+	 * Starts the delivery of the messages of a `MessagePort` listened to with `addEventListener`.
+	 */
+	start?(): void;
+};
+
+/**
+ * A message sent by a bridge to forward an event over a port.
+ */
+export type BridgeMessage = {
+	/**
+	 * The tag distinguishing bridge messages from the other messages of the port.
+	 */
+	type: "zohar:event";
+	/**
+	 * The origin of the context which emitted the event first.
+	 */
+	origin: string;
+	eventName: string;
+	data: unknown;
+};
+
+/**
+ * Serializer converting bridge messages to the payloads posted over a port and back.
+ *
+ * @example
+ * // Post JSON strings, e.g. over a port which only accepts strings
+ * const jsonSerializer: BridgeSerializer = {
+ *   serialize: message => JSON.stringify(message),
+ *   deserialize: payload => JSON.parse(payload as string)
+ * };
+ */
+export type BridgeSerializer = {
+	serialize: (message: BridgeMessage) => unknown;
+	deserialize: (payload: unknown) => unknown;
+};
+
+/**
+ * Options of a bridge created with `createEventBridge`.
+ *
+ * @template Event - The event description type.
+ */
+export type EventBridgeOptions<Event extends EventDescription<string, UnsafeAny>> = {
+	/**
+	 * The names of the events forwarded to the port. All the events are forwarded if omitted.
+	 */
+	send?: readonly (keyof Event & string)[];
+	/**
+	 * The names of the events received from the port and emitted locally. All the events are received if omitted.
+	 */
+	receive?: readonly (keyof Event & string)[];
+	/**
+	 * The origin tagging the events emitted locally. Defaults to an identifier shared by all the bridges of the emitter.
+	 */
+	origin?: string;
+	/**
+	 * The serializer of the messages. Messages are posted as is if omitted, relying on the structured clone algorithm.
+	 */
+	serializer?: BridgeSerializer;
+};
+
+/**
+ * The default serializer, posting the messages as is.
+ */
+const structuredCloneSerializer: BridgeSerializer = {
+	serialize: message => message,
+	deserialize: payload => payload
+};
+
+// The default origins of the emitters, by their `emit` function
+const defaultOrigins = new WeakMap<object, string>();
+
+/**
+ * An event being emitted by a bridge after receiving it from its port.
+ */
+type RelayedEvent = {
+	eventName: string;
+	origin: string;
+	/**
+	 * The message listener of the bridge which received the event.
+	 */
+	receiver: object;
+};
+
+// The events being emitted by the bridges of the emitters, by their `emit` function
+const relayedEvents = new WeakMap<object, RelayedEvent | undefined>();
+
+/**
+ * Utility function to take the default origin of an emitter, shared by all its bridges.
+ *
+ * @param emit - The `emit` function identifying the emitter.
+ * @returns The default origin of the emitter.
+ */
+const resolveDefaultOrigin = (emit: object): string => {
+	let origin = defaultOrigins.get(emit);
+	if (!origin) {
+		origin = `zohar:${Math.random().toString(36).slice(2)}`;
+		defaultOrigins.set(emit, origin);
+	}
+	return origin;
+};
+
+/**
+ * Utility function to check whether a deserialized payload is a bridge message.
+ *
+ * @param payload - The deserialized payload.
+ * @returns A boolean indicating whether the payload is a bridge message.
+ */
+const isBridgeMessage = (payload: unknown): payload is BridgeMessage =>
+	typeof payload === "object" &&
+	payload !== null &&
+	(<Partial<BridgeMessage>>payload).type === "zohar:event" &&
+	typeof (<Partial<BridgeMessage>>payload).origin === "string" &&
+	typeof (<Partial<BridgeMessage>>payload).eventName === "string";
+
+/**
+ * Connects an emitter to a `postMessage`-style port, forwarding the events emitted locally to the port and emitting
+ * the events received from the port locally. This makes the same typed events available in the main thread, web
+ * workers, and Node.js worker threads.
+ *
+ * Every message is tagged with the origin of the context which emitted the event first. A bridge never sends back the
+ * events it receives, and drops the events coming back to their origin, which prevents loops even when the contexts
+ * are connected in a cycle. The events emitted by the listeners of a received event are tagged with the local origin,
+ * unless they have the same name. This relies on the listeners being called synchronously: the events passed on
+ * asynchronously by a middleware, or delivered in a microtask by an emitter with the `microtask` delivery, are tagged
+ * with the local origin, so they are sent back to the context which emitted them first. Use the `immediate` or
+ * `queued` delivery for the bridged emitters.
+ *
+ * @template Event - The event description type.
+ * @param emitter - The emitter to connect.
+ * @param port - The port to forward the events over.
+ * @param options - The optional names of the events to send and receive, the origin, and the serializer.
+ * @returns A function disconnecting the bridge. It doesn't close the port.
+ *
+ * @example
+ * // main.ts
+ * const emitter = createEventEmitter<WorkerEvents>();
+ * const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+ * const disconnect = createEventBridge(emitter, worker, { send: ['job'], receive: ['progress', 'done'] });
+ *
+ * // worker.ts
+ * const emitter = createEventEmitter<WorkerEvents>();
+ * createEventBridge(emitter, self, { send: ['progress', 'done'], receive: ['job'] });
+ *
+ * // Node.js worker threads
+ * createEventBridge(emitter, parentPort!);
+ */
+export const createEventBridge = <Event extends EventDescription<string, UnsafeAny>>(
+	emitter: Pick<EventEmitter<Event>, "subscribe" | "subscribeAny" | "emit">,
+	port: BridgePort,
+	{ send, receive, origin, serializer = structuredCloneSerializer }: EventBridgeOptions<Event> = {}
+): UnsubscribeEvent => {
+	const { subscribe, subscribeAny, emit } = emitter;
+	const localOrigin = origin ?? resolveDefaultOrigin(emit);
+	let connected = true;
+
+	// Emit an event received from the port locally, remembering its origin for the other bridges of the emitter
+	const onMessage = ({ data: payload }: { data: unknown }): void => {
+		const message = serializer.deserialize(payload);
+		if (!isBridgeMessage(message) || message.origin === localOrigin) {
+			return;
+		}
+		const eventName = <keyof Event & string>message.eventName;
+		if (receive && !receive.includes(eventName)) {
+			return;
+		}
+		const previousEvent = relayedEvents.get(emit);
+		relayedEvents.set(emit, { eventName, origin: message.origin, receiver: onMessage });
+		try {
+			emit(eventName, <Event[keyof Event & string]>message.data);
+		} finally {
+			relayedEvents.set(emit, previousEvent);
+		}
+	};
+
+	// Forward a local event to the port, unless this bridge is emitting it
+	const forward = (eventName: string, data: unknown): void => {
+		const relayedEvent = relayedEvents.get(emit);
+		const isRelayed = relayedEvent?.eventName === eventName;
+		if (isRelayed && relayedEvent.receiver === onMessage) {
+			return;
+		}
+		const message: BridgeMessage = {
+			type: "zohar:event",
+			origin: isRelayed ? relayedEvent.origin : localOrigin,
+			eventName,
+			data
+		};
+		port.postMessage(serializer.serialize(message));
+	};
+
+	const unsubscribes = send
+		? send.map(eventName => subscribe(eventName, forward))
+		: [subscribeAny(({ eventName, data }) => forward(eventName, data))];
+	port.addEventListener("message", onMessage);
+	port.start?.();
+
+	// Return a function to disconnect the bridge
+	return (): boolean => {
+		if (!connected) {
+			return false;
+		}
+		connected = false;
+		for (const unsubscribe of unsubscribes) {
+			unsubscribe();
+		}
+		port.removeEventListener("message", onMessage);
+		return true;
+	};
+};
@@ -1,6 +1,5 @@
-// A type alias for `any` used to explicitly indicate potentially unsafe usage
-// eslint-disable-next-line @typescript-eslint/no-explicit-any -- We need it for parameter type
-type UnsafeAny = any;
+import { createEventNameMatcher, type EventNameMatches } from "./eventPattern";
+import { reportUnhandledError, subscribedListenerChecks, type UnsafeAny, unsubscribeNothing } from "./internal";
 
 /**
  * Describes an event mapping, where each event type is associated with a data type.
@@ -16,8 +15,40 @@ export type EventDescription<EventType extends string, EventDataType = void> = {
 	[P in EventType]: EventDataType;
 };
 
+/**
+ * Control object passed to listeners by `emitCancelable`, letting them cancel the event or stop its propagation.
+ *
+ * @example
+ * subscribe('beforeClose', (eventName, data, control) => {
+ *   if (data.hasUnsavedChanges) {
+ *     control?.preventDefault(); // Veto closing
+ *     control?.stopPropagation(); // The listeners with a lower priority are not called
+ *   }
+ * });
+ */
+export type EventControl = {
+	/**
+	 * Whether a listener has canceled the event.
+	 */
+	readonly defaultPrevented: boolean;
+	/**
+	 * Whether a listener has stopped the propagation of the event.
+	 */
+	readonly propagationStopped: boolean;
+	/**
+	 * Cancels the event, which is reported by `emitCancelable` once all the listeners have been called.
+	 */
+	preventDefault: () => void;
+	/**
+	 * Prevents the remaining listeners from being called for the event.
+	 */
+	stopPropagation: () => void;
+};
+
 /**
  * Type for event listeners, which take the event name and associated data as parameters.
+ * A listener may return a promise, which is awaited by `emitAsync` and `emitSerial` and ignored by `emit`.
+ * Listeners called by `emitCancelable` also receive an `EventControl` as the third parameter.
  *
  * @template Event - The event description type.
  * @template EventType - The specific event type within the event description.
@@ -41,7 +72,7 @@ export type EventDescription<EventType extends string, EventDataType = void> = {
 export type EventListener<
 	Event extends EventDescription<string, UnsafeAny>,
 	EventType extends keyof Event & string = keyof Event & string
-> = (eventName: EventType, data: Event[EventType]) => void;
+> = (eventName: EventType, data: Event[EventType], control?: EventControl) => void | Promise<void>;
 
 /**
  * Type for predicates used to filter which events the listener should handle.
@@ -75,7 +106,51 @@ export type EventPredicate<
 > = (entry: Event[EventType]) => boolean;
 
 /**
- * Function type to subscribe to an event, optionally with a predicate.
+ * Options of a subscription.
+ *
+ * @template Predicate - The type of the predicate filtering the events of the subscription.
+ *
+ * @example
+ * // Run a validation listener before the listeners subscribed earlier with the default priority
+ * subscribe('userLogin', validateLogin, { priority: 10 });
+ *
+ * // Combine a priority with a predicate
+ * subscribe('userLogin', logUserLogin, { priority: -1, predicate: data => data.userId === 'specificUserId' });
+ *
+ * // Unsubscribe when the component is destroyed
+ * const controller = new AbortController();
+ * subscribe('userLogin', renderUser, { signal: controller.signal });
+ * controller.abort(); // The listener is unsubscribed
+ */
+export type ListenerOptions<Predicate> = {
+	/**
+	 * The predicate filtering which events the listener should handle.
+	 */
+	predicate?: Predicate;
+	/**
+	 * The priority of the listener. Listeners with a higher priority are called first, and listeners with the same
+	 * priority are called in subscription order. Defaults to `0`.
+	 */
+	priority?: number;
+	/**
+	 * A signal unsubscribing the listener when aborted. No listener is subscribed if it is already aborted.
+	 */
+	signal?: AbortSignal;
+};
+
+/**
+ * Options of a subscription to an event.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ */
+export type SubscribeOptions<
+	Event extends EventDescription<string, UnsafeAny>,
+	EventType extends keyof Event & string = keyof Event & string
+> = ListenerOptions<EventPredicate<Event, EventType>>;
+
+/**
+ * Function type to subscribe to an event, optionally with a predicate or subscription options.
  *
  * @template Event - The event description type.
  *
@@ -105,13 +180,16 @@ export type EventPredicate<
  *
  * // Unsubscribe the listener
  * unsubscribe();  // This removes the listener for future events
+ *
+ * // Subscribe with options to run the listener before the listeners with a lower priority
+ * subscribe('userLogin', logUserLogin, { predicate: isSpecificUser, priority: 10 });
  */
 export type SubscribeEvent<Event extends EventDescription<string, UnsafeAny>> = <
 	EventType extends keyof Event & string
 >(
 	eventName: EventType,
 	listener: EventListener<Event, EventType>,
-	predicate?: EventPredicate<Event, EventType>
+	predicateOrOptions?: EventPredicate<Event, EventType> | SubscribeOptions<Event, EventType>
 ) => UnsubscribeEvent;
 
 /**
@@ -197,6 +275,10 @@ export type UnsubscribeAllEvents<Event extends EventDescription<string, UnsafeAn
 /**
  * Function type to emit an event with the associated data.
  *
+ * The listeners to call are taken when the event is delivered: the listeners subscribed meanwhile are only called for
+ * the next events, while the listeners unsubscribed meanwhile are not called anymore. The events emitted by the
+ * listeners are delivered according to the `delivery` option of the emitter.
+ *
  * @template Event - The event description type.
  *
  * @example
@@ -236,218 +318,1000 @@ export type EmitEvent<Event extends EventDescription<string, UnsafeAny>> = <Even
 ) => void;
 
 /**
- * Structure representing a listener entry with an optional predicate.
+ * A discriminated union of `{ eventName, data }` objects over all the events of an event description.
  *
  * @template Event - The event description type.
- * @template EventType - The specific event type within the event description.
+ *
+ * @example
+ * type AppEvents = EventDescription<'userLogin', { userId: string }> & EventDescription<'error', Error>;
+ *
+ * // { eventName: 'userLogin'; data: { userId: string } } | { eventName: 'error'; data: Error }
+ * type AppEvent = AnyEvent<AppEvents>;
  */
-type ListenersEntry<Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string> = {
-	listener: EventListener<Event, EventType>;
-	predicate?: EventPredicate<Event, EventType>;
-};
+export type AnyEvent<Event extends EventDescription<string, UnsafeAny>> = {
+	[EventType in keyof Event & string]: { eventName: EventType; data: Event[EventType] };
+}[keyof Event & string];
 
 /**
- * Structure representing an entry in the listeners map, with a current index and map of listeners.
+ * Type for catch-all event listeners, which are called for every emitted event.
  *
  * @template Event - The event description type.
- * @template EventType - The specific event type within the event description.
+ *
+ * @example
+ * const logEvent: AnyEventListener<AppEvents> = event => {
+ *   if (event.eventName === 'error') {
+ *     console.error(event.data.message); // `data` is narrowed to `Error`
+ *   }
+ * };
  */
-type ListenersMapEntry<Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string> = {
-	currentIndex: number;
-	listeners: Map<number, ListenersEntry<Event, EventType>>;
-};
+export type AnyEventListener<Event extends EventDescription<string, UnsafeAny>> = (
+	event: AnyEvent<Event>,
+	control?: EventControl
+) => void | Promise<void>;
 
 /**
- * Class encapsulating a map to manage event listeners and associated data.
+ * Type for predicates used to filter which events a catch-all listener should handle.
  *
  * @template Event - The event description type.
  */
-class EventsMap<Event extends EventDescription<string, UnsafeAny>> {
-	// Internal map storing event types and their corresponding listeners
-	private map = new Map<keyof Event & string, ListenersMapEntry<Event, keyof Event & string>>();
-
-	/**
-	 * Sets a new entry in the map for a specific event type.
-	 *
-	 * @template K - The specific event key.
-	 * @param key - The event key.
-	 * @param value - The value to set for the event key.
-	 * @returns The current instance for chaining.
-	 */
-	set<K extends keyof Event & string>(key: K, value: ListenersMapEntry<Event, K>): this {
-		this.map.set(key, <ListenersMapEntry<Event, keyof Event & string>>value);
-		return this;
-	}
+export type AnyEventPredicate<Event extends EventDescription<string, UnsafeAny>> = (event: AnyEvent<Event>) => boolean;
 
-	/**
-	 * Retrieves the entry from the map for a specific event type.
-	 *
-	 * @template K - The specific event key.
-	 * @param key - The event key.
-	 * @returns The entry associated with the event key, or undefined if not found.
-	 */
-	get<K extends keyof Event & string>(key: K): ListenersMapEntry<Event, K> | undefined {
-		return this.map.get(key);
-	}
+/**
+ * Function type to subscribe to every event of an emitter, optionally with a predicate or subscription options.
+ * Catch-all listeners are called after the listeners of the emitted event having the same priority.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * // Assume we have an event description type for application events
+ * type AppEvents = EventDescription<'userLogin' | 'userLogout', { userId: string; timestamp: Date }>;
+ *
+ * const { subscribeAny, emit } = createEventEmitter<AppEvents>();
+ *
+ * // Log every event except the ones of a specific user
+ * const unsubscribe = subscribeAny(
+ *   ({ eventName, data }) => console.log(`${eventName} for ${data.userId}`),
+ *   ({ data }) => data.userId !== 'robot'
+ * );
+ *
+ * emit('userLogin', { userId: 'user1', timestamp: new Date() }); // Logs "userLogin for user1"
+ * emit('userLogout', { userId: 'user1', timestamp: new Date() }); // Logs "userLogout for user1"
+ *
+ * unsubscribe();
+ */
+export type SubscribeAnyEvent<Event extends EventDescription<string, UnsafeAny>> = (
+	listener: AnyEventListener<Event>,
+	predicateOrOptions?: AnyEventPredicate<Event> | ListenerOptions<AnyEventPredicate<Event>>
+) => UnsubscribeEvent;
 
-	/**
-	 * Checks if a specific event type exists in the map.
-	 *
-	 * @template K - The specific event key.
-	 * @param key - The event key.
-	 * @returns A boolean indicating whether the event key exists in the map.
-	 */
-	has<K extends keyof Event & string>(key: K): boolean {
-		return this.map.has(key);
-	}
+/**
+ * Resolves the event types of an event description whose names match a pattern.
+ * See `EventNameMatches` for the pattern syntax.
+ *
+ * @template Event - The event description type.
+ * @template Pattern - The pattern to match the event names against.
+ *
+ * @example
+ * type ChatEvents = EventDescription<'chat:message:received', { text: string }> &
+ *   EventDescription<'chat:user:joined' | 'chat:user:left', { userId: string }>;
+ *
+ * type UserEventType = MatchingEventType<ChatEvents, 'chat:user:*'>; // 'chat:user:joined' | 'chat:user:left'
+ * type ChatEventType = MatchingEventType<ChatEvents, 'chat:**'>; // All the three event types
+ */
+export type MatchingEventType<Event extends EventDescription<string, UnsafeAny>, Pattern extends string> = {
+	[EventType in keyof Event & string]: string extends EventType
+		? EventType
+		: EventNameMatches<EventType, Pattern> extends true
+			? EventType
+			: never;
+}[keyof Event & string];
 
-	/**
-	 * Deletes a specific event type from the map.
-	 *
-	 * @template K - The specific event key.
-	 * @param key - The event key.
-	 * @returns A boolean indicating whether the deletion was successful.
-	 */
-	delete<K extends keyof Event & string>(key: K): boolean {
-		return this.map.delete(key);
-	}
+/**
+ * Function type to subscribe to all the events whose names match a pattern, optionally with a predicate or
+ * subscription options.
+ * Listeners subscribed by pattern are called in subscription order along with the listeners subscribed by event name.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * // Assume we have hierarchical event names
+ * type ChatEvents = EventDescription<'chat:message:received', { userId: string; text: string }> &
+ *   EventDescription<'chat:user:joined' | 'chat:user:left', { userId: string }>;
+ *
+ * const { subscribePattern, emit } = createEventEmitter<ChatEvents>();
+ *
+ * // `eventName` is 'chat:user:joined' | 'chat:user:left' and `data` is { userId: string }
+ * const unsubscribe = subscribePattern('chat:user:*', (eventName, data) => {
+ *   console.log(`${eventName}: ${data.userId}`);
+ * });
+ *
+ * emit('chat:user:joined', { userId: 'user1' }); // This will trigger the listener
+ * emit('chat:message:received', { userId: 'user1', text: 'Hi' }); // This will NOT trigger the listener
+ *
+ * unsubscribe();
+ */
+export type SubscribePatternEvent<Event extends EventDescription<string, UnsafeAny>> = <Pattern extends string>(
+	pattern: Pattern,
+	listener: EventListener<Event, MatchingEventType<Event, Pattern>>,
+	predicateOrOptions?:
+		| EventPredicate<Event, MatchingEventType<Event, Pattern>>
+		| SubscribeOptions<Event, MatchingEventType<Event, Pattern>>
+) => UnsubscribeEvent;
 
+/**
+ * Result of an event emitted with `emitCancelable`.
+ */
+export type EmitCancelableResult = {
 	/**
-	 * Clears all entries from the map.
+	 * Whether a listener has canceled the event by calling `preventDefault`.
 	 */
-	clear(): void {
-		this.map.clear();
-	}
-
+	defaultPrevented: boolean;
 	/**
-	 * Returns the number of event types stored in the map.
-	 *
-	 * @returns The size of the map.
+	 * Whether a listener has stopped the propagation of the event by calling `stopPropagation`.
 	 */
-	get size(): number {
-		return this.map.size;
-	}
-}
+	propagationStopped: boolean;
+};
 
 /**
- * Utility function to resolve or create a new event store.
+ * Function type to emit an event which listeners can cancel or stop propagating using the `EventControl`
+ * passed as their third parameter.
  *
  * @template Event - The event description type.
- * @param eventsStore - The existing event store, if any.
- * @returns The resolved or newly created event store.
+ *
+ * @example
+ * // Assume we have an event description type for navigation events
+ * type NavigationEvents = EventDescription<'beforeNavigate', { url: string }>;
+ *
+ * const { subscribe, emitCancelable } = createEventEmitter<NavigationEvents>();
+ *
+ * // Veto the navigation, running before the other listeners thanks to the priority
+ * subscribe('beforeNavigate', (eventName, data, control) => {
+ *   if (hasUnsavedChanges()) {
+ *     control?.preventDefault();
+ *     control?.stopPropagation();
+ *   }
+ * }, { priority: 10 });
+ *
+ * const { defaultPrevented } = emitCancelable('beforeNavigate', { url: '/home' });
+ * if (!defaultPrevented) {
+ *   navigate('/home');
+ * }
+ *
+ * The result only reflects the listeners called before `emitCancelable` returns: when a middleware calls `next`
+ * asynchronously, the listeners are called later and cannot cancel the event anymore.
  */
-const resolveEventsStore = <Event extends EventDescription<string, UnsafeAny>>(
-	eventsStore?: EventsMap<Event>
-): EventsMap<Event> => {
-	if (eventsStore) {
-		return eventsStore;
-	}
-	return new EventsMap();
-};
+export type EmitCancelableEvent<Event extends EventDescription<string, UnsafeAny>> = <
+	EventType extends keyof Event & string
+>(
+	eventName: EventType,
+	data: Event[EventType]
+) => EmitCancelableResult;
 
 /**
- * Utility function to resolve listeners for a specific event, initializing if necessary.
+ * Function type to emit an event with the associated data and wait for its listeners.
+ * The returned promise settles once the promises returned by the listeners have settled.
  *
  * @template Event - The event description type.
- * @template EventType - The specific event type within the event description.
- * @param eventsStore - The event store containing listeners.
- * @param eventName - The name of the event to resolve listeners for.
- * @returns The resolved listeners map entry for the specified event type.
+ *
+ * @example
+ * // Assume we have an event description type for document events
+ * type DocumentEvents = EventDescription<'save', { documentId: string }>;
+ *
+ * // Create an event emitter and take its async emit functions
+ * const { subscribe, emitAsync, emitSerial } = createEventEmitter<DocumentEvents>();
+ *
+ * // Subscribe listeners returning promises
+ * subscribe('save', async (eventName, data) => {
+ *   await flushCache(data.documentId);
+ * });
+ * subscribe('save', async (eventName, data) => {
+ *   await persist(data.documentId);
+ * });
+ *
+ * // Wait for all the listeners running in parallel
+ * await emitAsync('save', { documentId: 'doc1' });
+ *
+ * // Wait for the listeners running one at a time in subscription order
+ * await emitSerial('save', { documentId: 'doc1' });
  */
-const resolveEventListeners = <
-	Event extends EventDescription<string, UnsafeAny>,
+export type EmitEventAsync<Event extends EventDescription<string, UnsafeAny>> = <
 	EventType extends keyof Event & string
 >(
-	eventsStore: EventsMap<Event>,
-	eventName: EventType
-): ListenersMapEntry<Event, EventType> => {
-	if (!eventsStore.has(eventName)) {
-		return {
-			currentIndex: 0,
-			listeners: new Map()
-		};
-	}
-	return eventsStore.get(eventName)!;
-};
+	eventName: EventType,
+	data: Event[EventType]
+) => Promise<void>;
 
 /**
- * Creates an event emitter, providing subscribe, emit, and unsubscribeAll functions.
+ * Function type to forget the remembered payloads of sticky events, so that they are not replayed to new listeners
+ * anymore.
  *
  * @template Event - The event description type.
- * @returns An array containing the subscribe, emit, and unsubscribeAll functions.
+ *
  * @example
- * // Define an event description type for application events
- * type AppEvents = EventDescription<'userLogin' | 'userLogout', { userId: string; timestamp: Date }>;
+ * const { clearSticky } = createEventEmitter<AppEvents>({ sticky: { configLoaded: 1 } });
  *
- * // Create an event emitter for the AppEvents type
- * const [subscribe, emit, unsubscribeAll] = createEventEmitter<AppEvents>();
+ * // Forget the remembered payloads of the `configLoaded` event
+ * clearSticky('configLoaded');
  *
- * // Example listener function for the 'userLogin' event
- * const logUserLogin: EventListener<AppEvents, 'userLogin'> = (eventName, data) => {
- *   console.log(`${data.userId} logged in at ${data.timestamp}`);
- * };
+ * // Forget the remembered payloads of all the events
+ * clearSticky();
+ */
+export type ClearStickyEvents<Event extends EventDescription<string, UnsafeAny>> = <
+	EventType extends keyof Event & string
+>(
+	eventName?: EventType
+) => void;
+
+/**
+ * Function type to count the listeners called when an event is emitted, regardless of their predicates, or all the
+ * listeners of an emitter if no event name is provided. Catch-all listeners and listeners subscribed by a matching
+ * pattern are counted as well.
  *
- * // Subscribe to the 'userLogin' event
- * subscribe('userLogin', logUserLogin);
+ * @template Event - The event description type.
  *
- * // Emit the 'userLogin' event
- * emit('userLogin', { userId: 'user1', timestamp: new Date() }); // This will trigger the 'logUserLogin' listener
+ * @example
+ * const { subscribe, subscribeAny, listenerCount } = createEventEmitter<AppEvents>();
  *
- * // Example listener function for the 'userLogout' event
- * const logUserLogout: EventListener<AppEvents, 'userLogout'> = (eventName, data) => {
- *   console.log(`${data.userId} logged out at ${data.timestamp}`);
- * };
+ * subscribe('userLogin', logUserLogin);
+ * subscribeAny(logEvent);
  *
- * // Subscribe to the 'userLogout' event
- * subscribe('userLogout', logUserLogout);
+ * listenerCount('userLogin'); // 2
+ * listenerCount('userLogout'); // 1
+ * listenerCount(); // 2
+ */
+export type ListenerCount<Event extends EventDescription<string, UnsafeAny>> = <EventType extends keyof Event & string>(
+	eventName?: EventType
+) => number;
+
+/**
+ * Function type to list the names of the events having listeners subscribed to them by name, in the order they were
+ * first subscribed to.
  *
- * // Emit the 'userLogout' event
- * emit('userLogout', { userId: 'user1', timestamp: new Date() }); // This will trigger the 'logUserLogout' listener
+ * @template Event - The event description type.
  *
- * // Unsubscribe all listeners for the 'userLogin' event
- * unsubscribeAll('userLogin');
+ * @example
+ * const { subscribe, eventNames } = createEventEmitter<AppEvents>();
  *
- * // Emit the 'userLogin' event again
- * emit('userLogin', { userId: 'user1', timestamp: new Date() }); // No listener will be triggered, since we unsubscribed
+ * subscribe('userLogin', logUserLogin);
  *
- * // Unsubscribe all listeners for all events
- * unsubscribeAll();
+ * eventNames(); // ['userLogin']
+ */
+export type EventNames<Event extends EventDescription<string, UnsafeAny>> = () => (keyof Event & string)[];
+
+/**
+ * Function type to check whether emitting an event calls any listener, including catch-all listeners and listeners
+ * subscribed by a matching pattern.
  *
- * // Emit the 'userLogout' event again
- * emit('userLogout', { userId: 'user1', timestamp: new Date() }); // No listener will be triggered, since all listeners were unsubscribed
+ * @template Event - The event description type.
  *
- * // Example output before unsubscribe:
- * // user1 logged in at Sat Aug 28 2023 14:35:07 GMT+0000 (Coordinated Universal Time)
- * // user1 logged out at Sat Aug 28 2023 14:40:07 GMT+0000 (Coordinated Universal Time)
+ * @example
+ * const { emit, hasListeners } = createEventEmitter<AppEvents>();
+ *
+ * // Skip building an expensive payload nobody listens to
+ * if (hasListeners('report')) {
+ *   emit('report', buildReport());
+ * }
  */
-export const createEventEmitter = <
-	Event extends EventDescription<string, UnsafeAny> = EventDescription<string, UnsafeAny>
->(): [subscribe: SubscribeEvent<Event>, emit: EmitEvent<Event>, unsubscribeAll: UnsubscribeAllEvents<Event>] => {
-	let eventsStore: EventsMap<Event> | undefined;
+export type HasListeners<Event extends EventDescription<string, UnsafeAny>> = <EventType extends keyof Event & string>(
+	eventName: EventType
+) => boolean;
 
-	// Subscribe to a specific event, adding a listener with an optional predicate
-	const subscribe: SubscribeEvent<Event> = <EventType extends keyof Event & string>(
-		eventName: EventType,
-		listener: EventListener<Event, EventType>,
-		predicate?: EventPredicate<Event, EventType>
+/**
+ * An event emitter created with `createEventEmitter`.
+ * It is a `[subscribe, emit, unsubscribeAll]` tuple which also exposes all of its functions as named properties.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * // Destructure the emitter as a tuple
+ * const [subscribe, emit, unsubscribeAll] = createEventEmitter<AppEvents>();
+ *
+ * // Or pick the functions you need by name
+ * const { subscribe, emitAsync } = createEventEmitter<AppEvents>();
+ */
+export type EventEmitter<Event extends EventDescription<string, UnsafeAny>> = [
+	subscribe: SubscribeEvent<Event>,
+	emit: EmitEvent<Event>,
+	unsubscribeAll: UnsubscribeAllEvents<Event>
+] & {
+	subscribe: SubscribeEvent<Event>;
+	emit: EmitEvent<Event>;
+	unsubscribeAll: UnsubscribeAllEvents<Event>;
+	/**
+	 * Subscribes a catch-all listener called for every emitted event.
+	 */
+	subscribeAny: SubscribeAnyEvent<Event>;
+	/**
+	 * Subscribes a listener to all the events whose names match a pattern.
+	 */
+	subscribePattern: SubscribePatternEvent<Event>;
+	/**
+	 * Subscribes a listener held weakly, which is unsubscribed once it is garbage collected.
+	 */
+	subscribeWeak: SubscribeEvent<Event>;
+	/**
+	 * Emits an event which listeners can cancel or stop propagating, reporting whether they did.
+	 */
+	emitCancelable: EmitCancelableEvent<Event>;
+	/**
+	 * Emits an event calling all the listeners at once and resolves when all of them have settled.
+	 */
+	emitAsync: EmitEventAsync<Event>;
+	/**
+	 * Emits an event awaiting the listeners one at a time in subscription order.
+	 */
+	emitSerial: EmitEventAsync<Event>;
+	/**
+	 * Forgets the remembered payloads of a sticky event, or of all the sticky events.
+	 */
+	clearSticky: ClearStickyEvents<Event>;
+	/**
+	 * Counts the listeners called when an event is emitted, or all the listeners of the emitter.
+	 */
+	listenerCount: ListenerCount<Event>;
+	/**
+	 * Lists the names of the events having listeners subscribed to them by name.
+	 */
+	eventNames: EventNames<Event>;
+	/**
+	 * Checks whether emitting an event calls any listener.
+	 */
+	hasListeners: HasListeners<Event>;
+	/**
+	 * Adds a middleware intercepting the emitted events.
+	 */
+	use: UseMiddleware<Event>;
+};
+
+/**
+ * Policy describing how `emit` deals with listeners (or predicates) that throw.
+ *
+ * - `throw`: the error propagates immediately, skipping the remaining listeners.
+ * - `isolate`: each failure is passed to `onError` and the remaining listeners still run.
+ * - `aggregate`: like `isolate`, but `emit` throws an `AggregateError` with all the failures after every listener has run.
+ *
+ * `emitAsync` and `emitSerial` apply the same policy to rejected listener promises. With `throw`, `emitAsync` rejects
+ * as soon as one of the listeners fails, like `Promise.all`, and `emitSerial` stops at the first failure. `emit`
+ * doesn't wait for the async listeners, but with `isolate` and `aggregate` their rejections are passed to `onError` as
+ * well once they occur, without being part of the `AggregateError`.
+ */
+export type EmitErrorPolicy = "throw" | "isolate" | "aggregate";
+
+/**
+ * How `emit` delivers the events emitted while an event is being delivered, such as the follow-up events emitted by
+ * listeners.
+ *
+ * - `immediate`: every event is delivered right away, so a nested event is delivered depth-first, before the
+ * remaining listeners of the outer event.
+ * - `queued`: a nested event is queued and delivered once the current event is delivered, in the order the events were
+ * emitted. The events emitted outside any delivery are still delivered right away.
+ * - `microtask`: every event is queued and the queue is delivered in a microtask, in the order the events were emitted.
+ *
+ * `emitCancelable` always delivers its event right away, since it reports what its listeners did, followed by the events
+ * its listeners queued. With `microtask`, the events emitted before it are still delivered in their microtask.
+ * `emitAsync` and `emitSerial` always deliver their event right away, since they wait for its listeners. With `queued`,
+ * the events their listeners emit synchronously are delivered once all of them have settled, while the events emitted
+ * after the listeners awaited something are delivered right away, as they are not nested anymore. When a listener
+ * throws with the `throw` policy, the queued events are dropped with `queued`. With `microtask`, the errors are passed
+ * to the `onUnhandledError` callback of the emitter instead, since no caller can catch them, and the other queued
+ * events are still delivered.
+ */
+export type EmitDelivery = "immediate" | "queued" | "microtask";
+
+/**
+ * Callback invoked for every listener (or predicate) that throws while an event is emitted.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * // Assume we have an event description type for application events
+ * type AppEvents = EventDescription<'userLogin' | 'userLogout', { userId: string; timestamp: Date }>;
+ *
+ * // Report failing listeners without interrupting the delivery to other listeners
+ * const reportListenerError: EmitErrorHandler<AppEvents> = (error, eventName, data) => {
+ *   console.error(`Listener for ${eventName} failed for user ${data.userId}`, error);
+ * };
+ *
+ * const [subscribe, emit] = createEventEmitter<AppEvents>({ onError: reportListenerError });
+ */
+export type EmitErrorHandler<Event extends EventDescription<string, UnsafeAny>> = <
+	EventType extends keyof Event & string
+>(
+	error: unknown,
+	eventName: EventType,
+	data: Event[EventType],
+	listener: EventListener<Event, EventType> | AnyEventListener<Event>
+) => void;
+
+/**
+ * Warning reported to `onMaxListeners` when more listeners than the `maxListeners` threshold are subscribed to an
+ * event, which usually reveals listeners that are never unsubscribed. It is created by the subscription exceeding the
+ * threshold, so its stack trace tells where that subscription was made.
+ *
+ * @example
+ * const emitter = createEventEmitter<AppEvents>({
+ *   maxListeners: 10,
+ *   onMaxListeners: warning => reportLeak(warning.eventName, warning.listenerCount, warning.stack)
+ * });
+ */
+export class MaxListenersExceededWarning extends Error {
+	/**
+	 * The name of the event with too many listeners.
+	 */
+	readonly eventName: string;
+	/**
+	 * The number of listeners subscribed to the event.
+	 */
+	readonly listenerCount: number;
+	/**
+	 * The threshold which was exceeded.
+	 */
+	readonly maxListeners: number;
+
+	/**
+	 * Creates a warning about an event with too many listeners.
+	 *
+	 * @param eventName - The name of the event with too many listeners.
+	 * @param listenerCount - The number of listeners subscribed to the event.
+	 * @param maxListeners - The threshold which was exceeded.
+	 */
+	constructor(eventName: string, listenerCount: number, maxListeners: number) {
+		super(
+			`Possible memory leak: ${listenerCount} listeners are subscribed to "${eventName}", exceeding the maximum of ${maxListeners}`
+		);
+		this.name = "MaxListenersExceededWarning";
+		this.eventName = eventName;
+		this.listenerCount = listenerCount;
+		this.maxListeners = maxListeners;
+	}
+}
+
+/**
+ * Middleware intercepting every emitted event before its listeners are called. It calls `next` with the data to pass
+ * on, possibly transformed, to the next middleware and eventually to the listeners. It may also call `next` later
+ * or not at all, in which case the event is swallowed.
+ *
+ * Middleware is called in the order it was added, whichever of `emit`, `emitCancelable`, `emitAsync` or `emitSerial`
+ * emits the event. `next` returns what the rest of the chain returns, which is a promise settling when the listeners
+ * have settled for `emitAsync` and `emitSerial`. Returning it makes them wait for the listeners as well.
+ *
+ * `emit` and `emitCancelable` return before an async middleware is done, so the errors it rejects with, including
+ * the errors of the listeners it calls, are passed to the `onUnhandledError` callback of the emitter. An async
+ * middleware also calls the listeners of `emitCancelable` too late for them to cancel the event.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * // Log every event
+ * const logEvents: EmitMiddleware<AppEvents> = (eventName, data, next) => {
+ *   console.log(`Emitting ${eventName}`, data);
+ *   return next(data);
+ * };
+ *
+ * // Swallow the events in read-only mode
+ * const blockInReadOnlyMode: EmitMiddleware<AppEvents> = (eventName, data, next) => {
+ *   if (!isReadOnly()) {
+ *     return next(data);
+ *   }
+ * };
+ *
+ * // Wait for a correlation ID before passing the event on
+ * const addCorrelationId: EmitMiddleware<AppEvents> = async (eventName, data, next) => {
+ *   const correlationId = await fetchCorrelationId();
+ *   return next({ ...data, correlationId });
+ * };
+ */
+export type EmitMiddleware<Event extends EventDescription<string, UnsafeAny>> = <
+	EventType extends keyof Event & string
+>(
+	eventName: EventType,
+	data: Event[EventType],
+	next: (data: Event[EventType]) => void | Promise<void>
+) => void | Promise<void>;
+
+/**
+ * Function type to add a middleware to an emitter at runtime. It returns a function removing the middleware.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * const { use, emit } = createEventEmitter<AppEvents>();
+ *
+ * const removeLogging = use((eventName, data, next) => {
+ *   console.log(`Emitting ${eventName}`);
+ *   return next(data);
+ * });
+ *
+ * emit('userLogin', { userId: 'user1', timestamp: new Date() }); // Logs "Emitting userLogin"
+ *
+ * removeLogging();
+ */
+export type UseMiddleware<Event extends EventDescription<string, UnsafeAny>> = (
+	middleware: EmitMiddleware<Event>
+) => UnsubscribeEvent;
+
+/**
+ * Options to configure an event emitter created with `createEventEmitter`.
+ *
+ * @template Event - The event description type.
+ */
+export type EventEmitterOptions<Event extends EventDescription<string, UnsafeAny>> = {
+	/**
+	 * How `emit` deals with throwing listeners. Defaults to `isolate` when `onError` is provided and to `throw` otherwise.
+	 */
+	errorPolicy?: EmitErrorPolicy;
+	/**
+	 * Callback receiving every listener failure when the error policy is `isolate` or `aggregate`.
+	 */
+	onError?: EmitErrorHandler<Event>;
+	/**
+	 * How `emit` delivers the events emitted while an event is being delivered. Defaults to `immediate`.
+	 *
+	 * @example
+	 * // Deliver the follow-up events emitted by listeners once the current event is delivered
+	 * createEventEmitter<AppEvents>({ delivery: 'queued' });
+	 */
+	delivery?: EmitDelivery;
+	/**
+	 * The number of latest payloads to remember for each sticky event. The remembered payloads are replayed to the
+	 * listeners subscribed to the event afterward, including the `once` and `awaited` ones, as soon as they subscribe.
+	 * When the replay throws, according to the error policy, the listener is unsubscribed before `subscribe` throws.
+	 *
+	 * @example
+	 * // Replay the latest `configLoaded` payload and the 10 latest `message` payloads
+	 * createEventEmitter<AppEvents>({ sticky: { configLoaded: 1, message: 10 } });
+	 */
+	sticky?: { [EventType in keyof Event & string]?: number };
+	/**
+	 * The middleware intercepting the emitted events, in the order it is called. More middleware can be added with `use`.
+	 */
+	middleware?: EmitMiddleware<Event>[];
+	/**
+	 * The number of listeners subscribed by name to an event above which a `MaxListenersExceededWarning` is reported,
+	 * once per event. It applies to all the events if it is a number, or to each event separately.
+	 *
+	 * @example
+	 * // Report more than 10 listeners of any event, or more than 100 `message` listeners
+	 * createEventEmitter<AppEvents>({ maxListeners: 10 });
+	 * createEventEmitter<AppEvents>({ maxListeners: { message: 100 } });
+	 */
+	maxListeners?: number | { [EventType in keyof Event & string]?: number };
+	/**
+	 * Callback receiving the warnings about the events exceeding `maxListeners`. Defaults to `console.warn`.
+	 */
+	onMaxListeners?: (warning: MaxListenersExceededWarning) => void;
+	/**
+	 * Callback receiving the errors which can't propagate to the caller of `emit` or `emitCancelable`, since they
+	 * occur once it has returned, such as the rejections of async middleware. Defaults to `console.error`.
+	 */
+	onUnhandledError?: (error: unknown, eventName: keyof Event & string) => void;
+};
+
+/**
+ * Structure representing a listener entry with an optional predicate and its priority.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ */
+type ListenersEntry<Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string> = {
+	listener: EventListener<Event, EventType>;
+	predicate?: EventPredicate<Event, EventType>;
+	priority: number;
+	// The catch-all listener wrapped by `listener`, reported to `onError` instead of its wrapper
+	origin?: AnyEventListener<Event>;
+	// The pattern matcher of listeners subscribed by pattern
+	matcher?: (eventName: string) => boolean;
+};
+
+/**
+ * Structure representing an entry in the listeners map, with a map of listeners by their subscription index.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ */
+type ListenersMapEntry<Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string> = {
+	listeners: Map<number, ListenersEntry<Event, EventType>>;
+};
+
+/**
+ * Structure representing a listener to call for an emitted event, along with the map it is registered in.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ */
+type ListenerToCall<Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string> = {
+	index: number;
+	entry: ListenersEntry<Event, EventType>;
+	listeners: Map<number, ListenersEntry<Event, EventType>>;
+};
+
+/**
+ * Class encapsulating a map to manage event listeners and associated data.
+ *
+ * @template Event - The event description type.
+ */
+class EventsMap<Event extends EventDescription<string, UnsafeAny>> {
+	// Internal map storing event types and their corresponding listeners
+	private map = new Map<keyof Event & string, ListenersMapEntry<Event, keyof Event & string>>();
+
+	/**
+	 * Sets a new entry in the map for a specific event type.
+	 *
+	 * @template K - The specific event key.
+	 * @param key - The event key.
+	 * @param value - The value to set for the event key.
+	 * @returns The current instance for chaining.
+	 */
+	set<K extends keyof Event & string>(key: K, value: ListenersMapEntry<Event, K>): this {
+		this.map.set(key, <ListenersMapEntry<Event, keyof Event & string>>value);
+		return this;
+	}
+
+	/**
+	 * Retrieves the entry from the map for a specific event type.
+	 *
+	 * @template K - The specific event key.
+	 * @param key - The event key.
+	 * @returns The entry associated with the event key, or undefined if not found.
+	 */
+	get<K extends keyof Event & string>(key: K): ListenersMapEntry<Event, K> | undefined {
+		return this.map.get(key);
+	}
+
+	/**
+	 * Checks if a specific event type exists in the map.
+	 *
+	 * @template K - The specific event key.
+	 * @param key - The event key.
+	 * @returns A boolean indicating whether the event key exists in the map.
+	 */
+	has<K extends keyof Event & string>(key: K): boolean {
+		return this.map.has(key);
+	}
+
+	/**
+	 * Deletes a specific event type from the map.
+	 *
+	 * @template K - The specific event key.
+	 * @param key - The event key.
+	 * @returns A boolean indicating whether the deletion was successful.
+	 */
+	delete<K extends keyof Event & string>(key: K): boolean {
+		return this.map.delete(key);
+	}
+
+	/**
+	 * Returns the event types stored in the map.
+	 *
+	 * @returns An iterator over the keys of the map.
+	 */
+	keys(): IterableIterator<keyof Event & string> {
+		return this.map.keys();
+	}
+
+	/**
+	 * Returns the entries of all the event types stored in the map.
+	 *
+	 * @returns An iterator over the entries of the map.
+	 */
+	values(): IterableIterator<ListenersMapEntry<Event, keyof Event & string>> {
+		return this.map.values();
+	}
+
+	/**
+	 * Clears all entries from the map.
+	 */
+	clear(): void {
+		this.map.clear();
+	}
+
+	/**
+	 * Returns the number of event types stored in the map.
+	 *
+	 * @returns The size of the map.
+	 */
+	get size(): number {
+		return this.map.size;
+	}
+}
+
+/**
+ * Utility function to resolve or create a new event store.
+ *
+ * @template Event - The event description type.
+ * @param eventsStore - The existing event store, if any.
+ * @returns The resolved or newly created event store.
+ */
+const resolveEventsStore = <Event extends EventDescription<string, UnsafeAny>>(
+	eventsStore?: EventsMap<Event>
+): EventsMap<Event> => {
+	if (eventsStore) {
+		return eventsStore;
+	}
+	return new EventsMap();
+};
+
+/**
+ * Utility function to resolve listeners for a specific event, initializing if necessary.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ * @param eventsStore - The event store containing listeners.
+ * @param eventName - The name of the event to resolve listeners for.
+ * @returns The resolved listeners map entry for the specified event type.
+ */
+const resolveEventListeners = <
+	Event extends EventDescription<string, UnsafeAny>,
+	EventType extends keyof Event & string
+>(
+	eventsStore: EventsMap<Event>,
+	eventName: EventType
+): ListenersMapEntry<Event, EventType> => {
+	if (!eventsStore.has(eventName)) {
+		return {
+			listeners: new Map()
+		};
+	}
+	return eventsStore.get(eventName)!;
+};
+
+/**
+ * Utility function to resolve subscription options from the optional predicate or options argument of a subscription.
+ *
+ * @template Predicate - The type of the predicate filtering the events of the subscription.
+ * @template Options - The type of the options of the subscription.
+ * @param predicateOrOptions - The predicate or the options of the subscription, if any.
+ * @returns The options of the subscription.
+ */
+const resolveListenerOptions = <
+	Predicate extends (...parameters: UnsafeAny[]) => boolean,
+	Options extends ListenerOptions<Predicate> = ListenerOptions<Predicate>
+>(
+	predicateOrOptions?: Predicate | Options
+): Options => {
+	if (typeof predicateOrOptions === "function") {
+		return { predicate: predicateOrOptions } as Options;
+	}
+	return predicateOrOptions ?? ({} as Options);
+};
+
+/**
+ * Utility function reporting the events exceeding `maxListeners` when no `onMaxListeners` callback is provided.
+ *
+ * @param warning - The warning about the event with too many listeners.
+ */
+const reportMaxListeners = (warning: MaxListenersExceededWarning): void => {
+	// eslint-disable-next-line no-console -- The default report of possible memory leaks
+	console.warn(warning);
+};
+
+/**
+ * Utility function to unsubscribe a listener when a signal is aborted.
+ *
+ * @param unsubscribe - The function unsubscribing the listener.
+ * @param signal - The optional signal to bind the subscription to.
+ * @returns A function unsubscribing the listener, which also stops listening to the signal.
+ */
+const bindToSignal = (unsubscribe: UnsubscribeEvent, signal?: AbortSignal): UnsubscribeEvent => {
+	if (!signal) {
+		return unsubscribe;
+	}
+	const onAbort = (): void => {
+		unsubscribe();
+	};
+	signal.addEventListener("abort", onAbort, { once: true });
+	return (): boolean => {
+		signal.removeEventListener("abort", onAbort);
+		return unsubscribe();
+	};
+};
+
+/**
+ * Utility function to list the listeners of a map as listeners to call.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ * @param listeners - The map of listeners by their subscription index, if any.
+ * @returns The listeners to call, in subscription order.
+ */
+const toListenersToCall = <Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string>(
+	listeners?: Map<number, ListenersEntry<Event, EventType>>
+): ListenerToCall<Event, EventType>[] =>
+	listeners ? [...listeners].map(([index, entry]) => ({ index, entry, listeners })) : [];
+
+/**
+ * Utility function to call a listener for an emitted event if its predicate (if any) accepts the event data.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ * @param eventName - The name of the emitted event.
+ * @param data - The data associated with the emitted event.
+ * @param listener - The listener to call.
+ * @param predicate - The optional predicate filtering the event data.
+ * @param control - The control object of a cancelable event, if any.
+ * @returns The result of the listener, if it was called.
+ */
+const invokeListener = <Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string>(
+	eventName: EventType,
+	data: Event[EventType],
+	listener: EventListener<Event, EventType>,
+	predicate?: EventPredicate<Event, EventType>,
+	control?: EventControl
+): void | Promise<void> => {
+	if (predicate && !predicate(data)) {
+		return;
+	}
+	return control ? listener(eventName, data, control) : listener(eventName, data);
+};
+
+/**
+ * Utility function to create the control object of a cancelable event.
+ *
+ * @returns A new event control.
+ */
+const createEventControl = (): EventControl => {
+	let defaultPrevented = false;
+	let propagationStopped = false;
+	return {
+		get defaultPrevented(): boolean {
+			return defaultPrevented;
+		},
+		get propagationStopped(): boolean {
+			return propagationStopped;
+		},
+		preventDefault: (): void => {
+			defaultPrevented = true;
+		},
+		stopPropagation: (): void => {
+			propagationStopped = true;
+		}
+	};
+};
+
+/**
+ * Utility function to call a listener and wait for it, turning synchronous failures into a rejected promise.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ * @param eventName - The name of the emitted event.
+ * @param data - The data associated with the emitted event.
+ * @param entry - The listener entry to call.
+ * @returns A promise settling when the listener has finished.
+ */
+const invokeListenerAsync = async <
+	Event extends EventDescription<string, UnsafeAny>,
+	EventType extends keyof Event & string
+>(
+	eventName: EventType,
+	data: Event[EventType],
+	{ listener, predicate }: ListenersEntry<Event, EventType>
+): Promise<void> => invokeListener(eventName, data, listener, predicate);
+
+/**
+ * Creates an event emitter, providing subscribe, emit, and unsubscribeAll functions.
+ *
+ * @template Event - The event description type.
+ * @param options - Optional emitter configuration, e.g. the error policy applied when listeners throw.
+ * @returns An array containing the subscribe, emit, and unsubscribeAll functions, which also exposes them
+ * along with `subscribeAny`, `subscribePattern`, `subscribeWeak`, `emitCancelable`, `emitAsync`, `emitSerial`,
+ * `clearSticky`, `listenerCount`, `eventNames`, `hasListeners` and `use` as named properties.
+ * @example
+ * // Define an event description type for application events
+ * type AppEvents = EventDescription<'userLogin' | 'userLogout', { userId: string; timestamp: Date }>;
+ *
+ * // Create an event emitter for the AppEvents type
+ * const [subscribe, emit, unsubscribeAll] = createEventEmitter<AppEvents>();
+ *
+ * // Example listener function for the 'userLogin' event
+ * const logUserLogin: EventListener<AppEvents, 'userLogin'> = (eventName, data) => {
+ *   console.log(`${data.userId} logged in at ${data.timestamp}`);
+ * };
+ *
+ * // Subscribe to the 'userLogin' event
+ * subscribe('userLogin', logUserLogin);
+ *
+ * // Emit the 'userLogin' event
+ * emit('userLogin', { userId: 'user1', timestamp: new Date() }); // This will trigger the 'logUserLogin' listener
+ *
+ * // Example listener function for the 'userLogout' event
+ * const logUserLogout: EventListener<AppEvents, 'userLogout'> = (eventName, data) => {
+ *   console.log(`${data.userId} logged out at ${data.timestamp}`);
+ * };
+ *
+ * // Subscribe to the 'userLogout' event
+ * subscribe('userLogout', logUserLogout);
+ *
+ * // Emit the 'userLogout' event
+ * emit('userLogout', { userId: 'user1', timestamp: new Date() }); // This will trigger the 'logUserLogout' listener
+ *
+ * // Unsubscribe all listeners for the 'userLogin' event
+ * unsubscribeAll('userLogin');
+ *
+ * // Emit the 'userLogin' event again
+ * emit('userLogin', { userId: 'user1', timestamp: new Date() }); // No listener will be triggered, since we unsubscribed
+ *
+ * // Unsubscribe all listeners for all events
+ * unsubscribeAll();
+ *
+ * // Emit the 'userLogout' event again
+ * emit('userLogout', { userId: 'user1', timestamp: new Date() }); // No listener will be triggered, since all listeners were unsubscribed
+ *
+ * // Example output before unsubscribe:
+ * // user1 logged in at Sat Aug 28 2023 14:35:07 GMT+0000 (Coordinated Universal Time)
+ * // user1 logged out at Sat Aug 28 2023 14:40:07 GMT+0000 (Coordinated Universal Time)
+ *
+ * // Isolate failing listeners so that the remaining ones still receive the event
+ * const [subscribeSafe, emitSafe] = createEventEmitter<AppEvents>({
+ *   onError: (error, eventName) => console.error(`Listener for ${eventName} failed`, error)
+ * });
+ *
+ * // Wait for listeners returning promises
+ * const { emitAsync } = createEventEmitter<AppEvents>();
+ * await emitAsync('userLogin', { userId: 'user1', timestamp: new Date() });
+ *
+ * // Replay the latest `userLogin` payload to the listeners subscribing after it was emitted
+ * const [subscribeSticky, emitSticky] = createEventEmitter<AppEvents>({ sticky: { userLogin: 1 } });
+ *
+ * // Intercept every emitted event with a middleware
+ * const [subscribeLogged, emitLogged] = createEventEmitter<AppEvents>({ middleware: [logEvents] });
+ *
+ * // Report the events with more than 10 listeners, which may reveal listeners that are never unsubscribed
+ * const { subscribeWeak } = createEventEmitter<AppEvents>({ maxListeners: 10, onMaxListeners: reportLeak });
+ */
+export const createEventEmitter = <
+	Event extends EventDescription<string, UnsafeAny> = EventDescription<string, UnsafeAny>
+>(
+	options: EventEmitterOptions<Event> = {}
+): EventEmitter<Event> => {
+	const {
+		onError,
+		errorPolicy = onError ? "isolate" : "throw",
+		delivery: deliveryMode = "immediate",
+		sticky,
+		middleware = [],
+		maxListeners,
+		onMaxListeners = reportMaxListeners,
+		onUnhandledError = reportUnhandledError
+	} = options;
+	let eventsStore: EventsMap<Event> | undefined;
+	// Listeners which are not bound to a single event type
+	const patternListeners = new Map<number, ListenersEntry<Event, keyof Event & string>>();
+	const anyListeners = new Map<number, ListenersEntry<Event, keyof Event & string>>();
+	// Index shared by all the subscriptions, so that listeners of different kinds are called in subscription order
+	let currentIndex = 0;
+	// The latest payloads of the sticky events, from the oldest to the newest
+	const stickyPayloads = new Map<keyof Event & string, unknown[]>();
+	// The middleware by the index it was added with, in the order it is called
+	const middlewareChain = new Map<number, EmitMiddleware<Event>>();
+	// The events whose listeners exceeded `maxListeners`, which are only reported once
+	const leakingEvents = new Set<keyof Event & string>();
+	// Unsubscribes the weakly held listeners once they are garbage collected, created with the first of them
+	let collectedListeners: FinalizationRegistry<UnsubscribeEvent> | undefined;
+	// The events queued by `emit` with the `queued` and `microtask` deliveries, in the order they were emitted
+	const pendingDeliveries: (() => void)[] = [];
+	let delivering = false;
+	let deliveryScheduled = false;
+
+	// Subscribe to a specific event, adding a listener with an optional predicate and priority
+	const subscribe: SubscribeEvent<Event> = <EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: EventListener<Event, EventType>,
+		predicateOrOptions?: EventPredicate<Event, EventType> | SubscribeOptions<Event, EventType>
 	) => {
+		const { predicate, priority = 0, signal } = resolveListenerOptions(predicateOrOptions);
+		if (signal?.aborted) {
+			return unsubscribeNothing;
+		}
 		const resolvedEventsStore = resolveEventsStore(eventsStore);
 		const listenersMapEntry = resolveEventListeners(resolvedEventsStore, eventName);
-		const index = listenersMapEntry.currentIndex;
-		listenersMapEntry.currentIndex = index + 1;
-		listenersMapEntry.listeners.set(
-			index,
-			predicate
-				? {
-						listener,
-						predicate
-					}
-				: { listener }
-		);
+		const index = currentIndex;
+		currentIndex = index + 1;
+		listenersMapEntry.listeners.set(index, { listener, predicate, priority });
 		eventsStore = resolvedEventsStore.set(eventName, listenersMapEntry);
+		checkListenerCount(eventName, listenersMapEntry.listeners.size);
 
-		// Return a function to unsubscribe the listener
-		return (): boolean => {
+		// Create a function to unsubscribe the listener
+		const unsubscribe = bindToSignal((): boolean => {
 			if (!eventsStore) {
 				return false;
 			}
@@ -463,53 +1327,544 @@ export const createEventEmitter = <
 				eventsStore = undefined;
 			}
 			return hasDeleted;
+		}, signal);
+		try {
+			replay(eventName, index, listenersMapEntry.listeners);
+		} catch (error) {
+			// The caller can't unsubscribe a listener it didn't get the unsubscribe function of
+			unsubscribe();
+			throw error;
+		}
+		return unsubscribe;
+	};
+
+	// Report an event whose listeners exceed the threshold for the first time
+	const checkListenerCount = (eventName: keyof Event & string, listenerCount: number): void => {
+		const threshold = typeof maxListeners === "number" ? maxListeners : maxListeners?.[eventName];
+		if (threshold === undefined || listenerCount <= threshold || leakingEvents.has(eventName)) {
+			return;
+		}
+		leakingEvents.add(eventName);
+		onMaxListeners(new MaxListenersExceededWarning(eventName, listenerCount, threshold));
+	};
+
+	// Subscribe to a specific event, holding the listener weakly so that it is unsubscribed once garbage collected
+	const subscribeWeak: SubscribeEvent<Event> = (eventName, listener, predicateOrOptions) => {
+		collectedListeners ??= new FinalizationRegistry(unsubscribeCollected => unsubscribeCollected());
+		const listenerReference = new WeakRef(listener);
+		// Replaced once subscribed, although the listener can't be collected while the replayed payloads are delivered
+		let unsubscribe = unsubscribeNothing;
+		unsubscribe = subscribe(
+			eventName,
+			(...parameters) => {
+				const currentListener = listenerReference.deref();
+				if (!currentListener) {
+					unsubscribe();
+					return;
+				}
+				return currentListener(...parameters);
+			},
+			predicateOrOptions
+		);
+		collectedListeners.register(listener, unsubscribe, listenerReference);
+		const registry = collectedListeners;
+
+		// Return a function to unsubscribe the listener, which no longer needs to be unsubscribed once collected
+		return (): boolean => {
+			registry.unregister(listenerReference);
+			return unsubscribe();
 		};
 	};
 
-	// Emit an event, triggering all listeners registered for this event type
-	const emit: EmitEvent<Event> = <EventType extends keyof Event & string>(
+	// Subscribe a catch-all listener, called for every emitted event
+	const subscribeAny: SubscribeAnyEvent<Event> = (listener, predicateOrOptions) => {
+		const { predicate, priority = 0, signal } = resolveListenerOptions(predicateOrOptions);
+		if (signal?.aborted) {
+			return unsubscribeNothing;
+		}
+		const index = currentIndex;
+		currentIndex = index + 1;
+		anyListeners.set(index, {
+			listener: (eventName, data, control) => {
+				const event = <AnyEvent<Event>>{ eventName, data };
+				if (predicate && !predicate(event)) {
+					return;
+				}
+				return control ? listener(event, control) : listener(event);
+			},
+			priority,
+			origin: listener
+		});
+
+		// Return a function to unsubscribe the catch-all listener
+		return bindToSignal((): boolean => anyListeners.delete(index), signal);
+	};
+
+	// Subscribe to all the events whose names match a pattern, adding a listener with an optional predicate and priority
+	const subscribePattern: SubscribePatternEvent<Event> = (pattern, listener, predicateOrOptions) => {
+		const { predicate, priority = 0, signal } = resolveListenerOptions(predicateOrOptions);
+		if (signal?.aborted) {
+			return unsubscribeNothing;
+		}
+		const index = currentIndex;
+		currentIndex = index + 1;
+		patternListeners.set(index, {
+			listener: <EventListener<Event>>listener,
+			predicate: <EventPredicate<Event> | undefined>predicate,
+			priority,
+			matcher: createEventNameMatcher(pattern)
+		});
+
+		// Return a function to unsubscribe the listener
+		return bindToSignal((): boolean => patternListeners.delete(index), signal);
+	};
+
+	// Call the listeners of an event, stopping if a listener stops the propagation of a cancelable event
+	const dispatch = <EventType extends keyof Event & string>(
 		eventName: EventType,
-		data: Event[EventType]
-	) => {
-		if (!eventsStore) {
+		data: Event[EventType],
+		control?: EventControl
+	): void => {
+		remember(eventName, data);
+		const errors: unknown[] = [];
+		for (const { index, entry, listeners } of resolveListenersToCall(eventName)) {
+			if (control?.propagationStopped) {
+				break;
+			}
+			// Skip the listeners unsubscribed by the listeners called before them
+			if (!listeners.has(index)) {
+				continue;
+			}
+			callListener(errors, eventName, data, entry, control);
+		}
+		throwAggregatedErrors(errors, eventName);
+	};
+
+	// Call a listener synchronously, applying the error policy
+	const callListener = <EventType extends keyof Event & string>(
+		errors: unknown[],
+		eventName: EventType,
+		data: Event[EventType],
+		entry: ListenersEntry<Event, EventType>,
+		control?: EventControl
+	): void => {
+		const { listener, predicate } = entry;
+		if (errorPolicy === "throw") {
+			invokeListener(eventName, data, listener, predicate, control);
 			return;
 		}
-		const listenersMapEntry = eventsStore.get(eventName);
-		if (!listenersMapEntry) {
+		try {
+			const result = invokeListener(eventName, data, listener, predicate, control);
+			// The rejections of async listeners occur once `emit` has returned, so they are only passed to `onError`
+			if (result instanceof Promise) {
+				result.catch((error: unknown) => reportError([], error, eventName, data, entry));
+			}
+		} catch (error) {
+			reportError(errors, error, eventName, data, entry);
+		}
+	};
+
+	// Remember the payload of a sticky event, forgetting the oldest one when there are too many
+	const remember = <EventType extends keyof Event & string>(eventName: EventType, data: Event[EventType]): void => {
+		const size = sticky?.[eventName];
+		if (!size) {
 			return;
 		}
-		listenersMapEntry.listeners.forEach(({ listener, predicate }) => {
-			if (predicate && !predicate(data)) {
-				return;
+		const payloads = stickyPayloads.get(eventName) ?? [];
+		payloads.push(data);
+		if (payloads.length > size) {
+			payloads.splice(0, payloads.length - size);
+		}
+		stickyPayloads.set(eventName, payloads);
+	};
+
+	// Replay the remembered payloads of a sticky event to a new listener, until it unsubscribes
+	const replay = <EventType extends keyof Event & string>(
+		eventName: EventType,
+		index: number,
+		listeners: Map<number, ListenersEntry<Event, EventType>>
+	): void => {
+		const payloads = <Event[EventType][] | undefined>stickyPayloads.get(eventName);
+		if (!payloads) {
+			return;
+		}
+		const errors: unknown[] = [];
+		// Take a snapshot, as the listener may emit the event again
+		const snapshot = [...payloads];
+		for (const data of snapshot) {
+			const entry = listeners.get(index);
+			if (!entry) {
+				break;
 			}
-			listener(eventName, data);
-		});
+			callListener(errors, eventName, data, entry);
+		}
+		throwAggregatedErrors(errors, eventName);
+	};
+
+	// Forget the remembered payloads of a sticky event or of all the sticky events
+	const clearSticky: ClearStickyEvents<Event> = eventName => {
+		if (eventName === undefined) {
+			stickyPayloads.clear();
+			return;
+		}
+		stickyPayloads.delete(eventName);
+	};
+
+	// Pass an event through the middleware chain, eventually calling the listeners with the data passed on
+	const runMiddleware = <EventType extends keyof Event & string>(
+		eventName: EventType,
+		data: Event[EventType],
+		callListeners: (data: Event[EventType]) => void | Promise<void>
+	): void | Promise<void> => {
+		// Take a snapshot, so that the middleware added or removed meanwhile only applies to the next events
+		const chain = [...middlewareChain.values()];
+		const next = (position: number, nextData: Event[EventType]): void | Promise<void> => {
+			const current = chain[position];
+			if (!current) {
+				return callListeners(nextData);
+			}
+			return current(eventName, nextData, followingData => next(position + 1, followingData));
+		};
+		return next(0, data);
+	};
+
+	// Add a middleware at the end of the chain
+	const use: UseMiddleware<Event> = entry => {
+		const index = currentIndex;
+		currentIndex = index + 1;
+		middlewareChain.set(index, entry);
+
+		// Return a function to remove the middleware
+		return (): boolean => middlewareChain.delete(index);
+	};
+	for (const entry of middleware) {
+		use(entry);
+	}
+
+	// Deliver an event, if any, then the queued events, including the ones queued meanwhile
+	const deliverPending = (delivery?: () => void): void => {
+		delivering = true;
+		try {
+			delivery?.();
+			for (let pending = pendingDeliveries.shift(); pending; pending = pendingDeliveries.shift()) {
+				pending();
+			}
+		} catch (error) {
+			// Drop the queued events rather than delivering them along with the next events
+			pendingDeliveries.length = 0;
+			throw error;
+		} finally {
+			delivering = false;
+		}
+	};
+
+	// Deliver an event emitted with `emit` according to the delivery mode
+	const deliver = (eventName: keyof Event & string, delivery: () => void): void => {
+		if (deliveryMode === "immediate") {
+			delivery();
+			return;
+		}
+		pendingDeliveries.push(
+			deliveryMode === "queued"
+				? delivery
+				: (): void => {
+						// Nobody can catch the errors thrown in the microtask, which would crash the process
+						try {
+							delivery();
+						} catch (error) {
+							onUnhandledError(error, eventName);
+						}
+					}
+		);
+		if (delivering) {
+			return;
+		}
+		if (deliveryMode === "queued") {
+			deliverPending();
+			return;
+		}
+		if (!deliveryScheduled) {
+			deliveryScheduled = true;
+			queueMicrotask(() => {
+				deliveryScheduled = false;
+				deliverPending();
+			});
+		}
+	};
+
+	// Call the listeners of `emitAsync` or `emitSerial` as if delivering an event with the `queued` delivery, moving the
+	// events they emit synchronously to the queue of their dispatch, delivered once all of them have settled
+	const deferDeliveries = <Result>(deferredDeliveries: (() => void)[], call: () => Result): Result => {
+		if (deliveryMode !== "queued" || delivering) {
+			return call();
+		}
+		delivering = true;
+		try {
+			return call();
+		} finally {
+			delivering = false;
+			deferredDeliveries.push(...pendingDeliveries.splice(0));
+		}
+	};
+
+	// Deliver the events queued by the listeners of `emitAsync` or `emitSerial`
+	const deliverDeferred = (deferredDeliveries: (() => void)[]): void => {
+		if (deferredDeliveries.length > 0) {
+			pendingDeliveries.push(...deferredDeliveries);
+			deliverPending();
+		}
+	};
+
+	// Report the rejection of an async middleware chain, which can't propagate to the caller of `emit` anymore
+	const catchAsyncErrors = (eventName: keyof Event & string, result: void | Promise<void>): void => {
+		result?.catch((error: unknown) => onUnhandledError(error, eventName));
+	};
+
+	// Emit an event, triggering all listeners registered for this event type and the catch-all listeners
+	const emit: EmitEvent<Event> = <EventType extends keyof Event & string>(
+		eventName: EventType,
+		data: Event[EventType]
+	) => {
+		deliver(eventName, () =>
+			catchAsyncErrors(
+				eventName,
+				runMiddleware(eventName, data, nextData => dispatch(eventName, nextData))
+			)
+		);
+	};
+
+	// Emit an event which listeners can cancel or stop propagating
+	const emitCancelable: EmitCancelableEvent<Event> = <EventType extends keyof Event & string>(
+		eventName: EventType,
+		data: Event[EventType]
+	) => {
+		const control = createEventControl();
+		const delivery = (): void =>
+			catchAsyncErrors(
+				eventName,
+				runMiddleware(eventName, data, nextData => dispatch(eventName, nextData, control))
+			);
+		if (deliveryMode === "immediate" || delivering) {
+			delivery();
+		} else {
+			// Leave the events already waiting for their microtask to it, only delivering the ones queued by the listeners
+			const scheduledDeliveries = pendingDeliveries.splice(0);
+			try {
+				deliverPending(delivery);
+			} finally {
+				pendingDeliveries.unshift(...scheduledDeliveries);
+			}
+		}
+		return { defaultPrevented: control.defaultPrevented, propagationStopped: control.propagationStopped };
+	};
+
+	// Take the listeners to call for an event by descending priority. Listeners with the same priority are called
+	// in subscription order if they are registered for this event type or match it by pattern, then the catch-all ones
+	const resolveListenersToCall = <EventType extends keyof Event & string>(
+		eventName: EventType
+	): ListenerToCall<Event, EventType>[] =>
+		[
+			...[
+				...toListenersToCall(eventsStore?.get(eventName)?.listeners),
+				...toListenersToCall(patternListeners).filter(({ entry }) => entry.matcher!(eventName))
+			].sort((first, second) => first.index - second.index),
+			...toListenersToCall(anyListeners)
+		].sort((first, second) => second.entry.priority - first.entry.priority);
+
+	// Emit an event, calling all listeners at once and waiting for them to settle
+	const emitAsync: EmitEventAsync<Event> = async <EventType extends keyof Event & string>(
+		eventName: EventType,
+		data: Event[EventType]
+	) => {
+		await runMiddleware(eventName, data, nextData => dispatchAsync(eventName, nextData));
+	};
+
+	// Call all listeners of an event at once and wait for them to settle
+	const dispatchAsync = async <EventType extends keyof Event & string>(
+		eventName: EventType,
+		data: Event[EventType]
+	): Promise<void> => {
+		remember(eventName, data);
+		const errors: unknown[] = [];
+		const deferredDeliveries: (() => void)[] = [];
+		await Promise.all(
+			deferDeliveries(deferredDeliveries, () =>
+				resolveListenersToCall(eventName).map(async ({ index, entry, listeners }) => {
+					// Skip the listeners unsubscribed by the listeners called before them
+					if (!listeners.has(index)) {
+						return;
+					}
+					if (errorPolicy === "throw") {
+						return invokeListenerAsync(eventName, data, entry);
+					}
+					return invokeListenerAsync(eventName, data, entry).catch((error: unknown) =>
+						reportError(errors, error, eventName, data, entry)
+					);
+				})
+			)
+		);
+		throwAggregatedErrors(errors, eventName);
+		deliverDeferred(deferredDeliveries);
+	};
+
+	// Emit an event, awaiting listeners one at a time in subscription order
+	const emitSerial: EmitEventAsync<Event> = async <EventType extends keyof Event & string>(
+		eventName: EventType,
+		data: Event[EventType]
+	) => {
+		await runMiddleware(eventName, data, nextData => dispatchSerial(eventName, nextData));
+	};
+
+	// Call the listeners of an event one at a time in subscription order, awaiting each of them
+	const dispatchSerial = async <EventType extends keyof Event & string>(
+		eventName: EventType,
+		data: Event[EventType]
+	): Promise<void> => {
+		remember(eventName, data);
+		const errors: unknown[] = [];
+		const deferredDeliveries: (() => void)[] = [];
+		for (const { index, entry, listeners } of resolveListenersToCall(eventName)) {
+			// Skip the listeners unsubscribed while the previous listeners were running
+			if (!listeners.has(index)) {
+				continue;
+			}
+			if (errorPolicy === "throw") {
+				await deferDeliveries(deferredDeliveries, () => invokeListenerAsync(eventName, data, entry));
+				continue;
+			}
+			try {
+				await deferDeliveries(deferredDeliveries, () => invokeListenerAsync(eventName, data, entry));
+			} catch (error) {
+				reportError(errors, error, eventName, data, entry);
+			}
+		}
+		throwAggregatedErrors(errors, eventName);
+		deliverDeferred(deferredDeliveries);
+	};
+
+	// Collect a listener failure and pass it to the error handler
+	const reportError = <EventType extends keyof Event & string>(
+		errors: unknown[],
+		error: unknown,
+		eventName: EventType,
+		data: Event[EventType],
+		{ listener, origin }: ListenersEntry<Event, EventType>
+	): void => {
+		errors.push(error);
+		onError?.(error, eventName, data, origin ?? listener);
+	};
+
+	// Throw the collected listener failures at once when the error policy is `aggregate`
+	const throwAggregatedErrors = (errors: unknown[], eventName: keyof Event & string): void => {
+		if (errorPolicy === "aggregate" && errors.length > 0) {
+			throw new AggregateError(errors, `${errors.length} listener(s) failed while emitting "${eventName}"`);
+		}
 	};
 
 	// Unsubscribe all listeners for a specific event or all events
 	const unsubscribeAll: UnsubscribeAllEvents<Event> = <EventType extends keyof Event & string>(
 		eventName?: EventType
 	) => {
+		if (!eventName) {
+			patternListeners.clear();
+			anyListeners.clear();
+		}
 		if (!eventsStore) {
 			return;
 		}
+		// Clear the listeners maps as well, so that the listeners of an ongoing emit are not called anymore
 		if (!eventName) {
+			for (const { listeners } of eventsStore.values()) {
+				listeners.clear();
+			}
 			eventsStore.clear();
 			eventsStore = undefined;
 			return;
 		}
+		eventsStore.get(eventName)?.listeners.clear();
 		eventsStore.delete(eventName);
 		if (eventsStore.size === 0) {
 			eventsStore = undefined;
 		}
 	};
 
-	// Return the functions to subscribe, emit, and unsubscribe all listeners
-	return [subscribe, emit, unsubscribeAll];
+	// Count the listeners called for an event, or all the listeners of the emitter
+	const listenerCount: ListenerCount<Event> = eventName => {
+		if (eventName === undefined) {
+			let count = patternListeners.size + anyListeners.size;
+			for (const { listeners } of eventsStore?.values() ?? []) {
+				count += listeners.size;
+			}
+			return count;
+		}
+		let count = (eventsStore?.get(eventName)?.listeners.size ?? 0) + anyListeners.size;
+		for (const { matcher } of patternListeners.values()) {
+			if (matcher!(eventName)) {
+				count += 1;
+			}
+		}
+		return count;
+	};
+
+	// List the names of the events having listeners subscribed to them by name
+	const eventNames: EventNames<Event> = () => [...(eventsStore?.keys() ?? [])];
+
+	// Check whether emitting an event calls any listener
+	const hasListeners: HasListeners<Event> = eventName => listenerCount(eventName) > 0;
+
+	// Check whether a listener is subscribed to an event by name, for the modules built on the emitter
+	const isSubscribed = (eventName: string, listener: unknown): boolean =>
+		[...(eventsStore?.get(<keyof Event & string>eventName)?.listeners.values() ?? [])].some(
+			entry => entry.listener === listener
+		);
+	subscribedListenerChecks.set(emit, isSubscribed);
+
+	// Return the functions to subscribe, emit, and unsubscribe all listeners, also exposed by name
+	const functions = {
+		subscribe,
+		emit,
+		unsubscribeAll,
+		subscribeAny,
+		subscribePattern,
+		subscribeWeak,
+		emitCancelable,
+		emitAsync,
+		emitSerial,
+		clearSticky,
+		listenerCount,
+		eventNames,
+		hasListeners,
+		use
+	};
+	return Object.assign<[SubscribeEvent<Event>, EmitEvent<Event>, UnsubscribeAllEvents<Event>], typeof functions>(
+		[subscribe, emit, unsubscribeAll],
+		functions
+	);
+};
+
+/**
+ * Options of a subscription made with `once`.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ *
+ * @example
+ * // Handle the first three logins of the specific user
+ * once(subscribe)('userLogin', logUserLogin, { predicate: data => data.userId === 'user123', count: 3 });
+ */
+export type OnceOptions<
+	Event extends EventDescription<string, UnsafeAny>,
+	EventType extends keyof Event & string = keyof Event & string
+> = SubscribeOptions<Event, EventType> & {
+	/**
+	 * The number of events to handle before unsubscribing. Defaults to `1`.
+	 */
+	count?: number;
 };
 
 /**
  * Type for subscribing to an event only once. The listener will automatically unsubscribe after the event is triggered.
+ * Events filtered out by the optional predicate don't count.
  *
  * @template Event - The event description type.
  *
@@ -529,14 +1884,26 @@ export const createEventEmitter = <
  *
  * // Emit the `userConnected` event
  * emit('userConnected', { userId: 'user123', timestamp: new Date() });
+ *
+ * // Subscribe once with a priority and a signal unsubscribing the listener if the event has not occurred yet
+ * onceSubscribe('userConnected', greetUser, { priority: 10, signal: controller.signal });
+ *
+ * // Greet the specific user on their first connection, or stop waiting when the component is unmounted
+ * const unsubscribe = onceSubscribe('userConnected', greetUser, data => data.userId === 'user123');
+ * unsubscribe();
+ *
+ * // Handle the first three connections
+ * onceSubscribe('userConnected', greetUser, { count: 3 });
  */
 export type SubscribeOnce<Event extends EventDescription<string, UnsafeAny>> = <EventType extends keyof Event & string>(
 	eventName: EventType,
-	listener: EventListener<Event, EventType>
-) => void;
+	listener: EventListener<Event, EventType>,
+	predicateOrOptions?: EventPredicate<Event, EventType> | OnceOptions<Event, EventType>
+) => UnsubscribeEvent;
 
 /**
- * Utility function to subscribe to an event only once. It automatically unsubscribes after the event is triggered.
+ * Utility function to subscribe to an event only once, or a given number of times. It automatically unsubscribes
+ * after the event is triggered, and returns a function to unsubscribe before that.
  *
  * @template Event - The event description type.
  * @param subscribe - The original `subscribe` function to wrap with the `once` functionality.
@@ -544,13 +1911,142 @@ export type SubscribeOnce<Event extends EventDescription<string, UnsafeAny>> = <
  */
 export const once =
 	<Event extends EventDescription<string, UnsafeAny>>(subscribe: SubscribeEvent<Event>): SubscribeOnce<Event> =>
-	<EventType extends keyof Event & string>(eventName: EventType, listener: EventListener<Event, EventType>) => {
-		const unsubscribe = subscribe(eventName, (eventName, data) => {
+	<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: EventListener<Event, EventType>,
+		predicateOrOptions?: EventPredicate<Event, EventType> | OnceOptions<Event, EventType>
+	): UnsubscribeEvent => {
+		const { count = 1, ...options } = resolveListenerOptions<
+			EventPredicate<Event, EventType>,
+			OnceOptions<Event, EventType>
+		>(predicateOrOptions);
+		let remainingCount = count;
+		// Replaced once subscribed, since the replayed payloads of a sticky event trigger the listener beforehand
+		let unsubscribe = unsubscribeNothing;
+		unsubscribe = subscribe(
+			eventName,
+			(...parameters) => {
+				if (remainingCount <= 0) {
+					return;
+				}
+				remainingCount -= 1;
+				if (remainingCount === 0) {
+					unsubscribe();
+				}
+				return listener(...parameters);
+			},
+			options
+		);
+		if (remainingCount <= 0) {
 			unsubscribe();
-			listener(eventName, data);
-		});
+		}
+		return unsubscribe;
 	};
 
+/**
+ * Error rejecting the promises returned by `awaited` and `awaitedAny` when no awaited event occurs in time.
+ *
+ * @example
+ * try {
+ *   await awaited(subscribe)('userConnected', { timeout: 5000 });
+ * } catch (error) {
+ *   if (error instanceof TimeoutError) {
+ *     console.log(`No user connected within ${error.timeout} ms`);
+ *   }
+ * }
+ */
+export class TimeoutError extends Error {
+	/**
+	 * The number of milliseconds waited before giving up.
+	 */
+	readonly timeout: number;
+
+	/**
+	 * Creates a timeout error.
+	 *
+	 * @param message - The error message.
+	 * @param timeout - The number of milliseconds waited before giving up.
+	 */
+	constructor(message: string, timeout: number) {
+		super(message);
+		this.name = "TimeoutError";
+		this.timeout = timeout;
+	}
+}
+
+/**
+ * Options of waiting for events with `awaited` and `awaitedAny`.
+ *
+ * @template Predicate - The type of the predicate filtering the awaited events.
+ *
+ * @example
+ * // Wait for the specific user to log in, for 5 seconds at most
+ * awaited(subscribe)('userLogin', { predicate: data => data.userId === 'user123', timeout: 5000 });
+ */
+export type AwaitedOptions<Predicate> = ListenerOptions<Predicate> & {
+	/**
+	 * The number of milliseconds to wait for the event before rejecting with a `TimeoutError`. Waits forever if omitted.
+	 */
+	timeout?: number;
+};
+
+/**
+ * Utility function to wait for the first of the events handled by some listeners. All the listeners, the timer,
+ * and the signal listener are removed as soon as the returned promise settles.
+ *
+ * @template Result - The type of the value the promise resolves with.
+ * @param subscribeAll - Function subscribing the listeners with the given callback and returning their unsubscribe
+ * functions.
+ * @param description - The description of the awaited events used in the message of the timeout error.
+ * @param options - The optional signal and timeout.
+ * @returns A promise resolving with the value passed to the callback by the first handled event.
+ */
+const waitForEvent = <Result>(
+	subscribeAll: (settle: (result: Result) => void) => UnsubscribeEvent[],
+	description: string,
+	{ signal, timeout }: Pick<AwaitedOptions<unknown>, "signal" | "timeout">
+): Promise<Result> =>
+	new Promise<Result>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let settled = false;
+		// Empty until subscribed, since the replayed payloads of a sticky event trigger the listeners beforehand
+		let unsubscribes: UnsubscribeEvent[] = [];
+		const cleanUp = (): void => {
+			settled = true;
+			for (const unsubscribe of unsubscribes) {
+				unsubscribe();
+			}
+			signal?.removeEventListener("abort", onAbort);
+			clearTimeout(timer);
+		};
+		const onAbort = (): void => {
+			cleanUp();
+			reject(signal?.reason);
+		};
+		unsubscribes = subscribeAll(result => {
+			if (settled) {
+				return;
+			}
+			cleanUp();
+			resolve(result);
+		});
+		if (settled) {
+			cleanUp();
+			return;
+		}
+		signal?.addEventListener("abort", onAbort, { once: true });
+		if (timeout !== undefined) {
+			timer = setTimeout(() => {
+				cleanUp();
+				reject(new TimeoutError(`Timed out after ${timeout} ms waiting for ${description}`, timeout));
+			}, timeout);
+		}
+	});
+
 /**
  * Type for subscribing to an event and returning a promise that resolves when the event is triggered.
  *
@@ -572,16 +2068,28 @@ export const once =
  *
  * // Emit the `userConnected` event
  * emit('userConnected', { userId: 'user123', timestamp: new Date() });
+ *
+ * // Resolve before the listeners with a lower priority are called
+ * awaitedSubscribe('userConnected', { priority: 10 });
+ *
+ * // Stop waiting when the signal is aborted, rejecting with the reason of the signal
+ * awaitedSubscribe('userConnected', { signal: controller.signal });
+ *
+ * // Wait for a specific user for 5 seconds at most, rejecting with a `TimeoutError` afterward
+ * awaitedSubscribe('userConnected', { predicate: data => data.userId === 'user123', timeout: 5000 });
  */
 export type SubscribeAwaited<Event extends EventDescription<string, UnsafeAny>> = <
 	EventType extends keyof Event & string
 >(
-	eventName: EventType
+	eventName: EventType,
+	options?: AwaitedOptions<EventPredicate<Event, EventType>>
 ) => Promise<Event[EventType]>;
 
 /**
  * Utility function to subscribe to an event and return a promise that resolves when the event is triggered.
- * It automatically unsubscribes after the event is handled.
+ * It automatically unsubscribes after the event is handled, when the optional signal is aborted, in which case
+ * the promise rejects with the reason of the signal, or when the optional timeout elapses, in which case the promise
+ * rejects with a `TimeoutError`.
  *
  * @template Event - The event description type.
  * @param subscribe - The original `subscribe` function to wrap with the `awaited` functionality.
@@ -589,10 +2097,63 @@ export type SubscribeAwaited<Event extends EventDescription<string, UnsafeAny>>
  */
 export const awaited =
 	<Event extends EventDescription<string, UnsafeAny>>(subscribe: SubscribeEvent<Event>): SubscribeAwaited<Event> =>
-	<EventType extends keyof Event & string>(eventName: EventType) =>
-		new Promise<Event[EventType]>(resolve => {
-			const unsubscribe = subscribe(eventName, (_, data) => {
-				unsubscribe();
-				resolve(data);
-			});
-		});
+	<EventType extends keyof Event & string>(
+		eventName: EventType,
+		{ predicate, priority, ...options }: AwaitedOptions<EventPredicate<Event, EventType>> = {}
+	) =>
+		waitForEvent<Event[EventType]>(
+			settle => [subscribe(eventName, (_, data) => settle(data), { predicate, priority })],
+			`"${eventName}"`,
+			options
+		);
+
+/**
+ * Type for subscribing to several events and returning a promise that resolves when the first of them is triggered.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * type LoginEvents = EventDescription<'success', { userId: string }> & EventDescription<'failure', Error>;
+ *
+ * const [subscribe, emit] = createEventEmitter<LoginEvents>();
+ *
+ * const result = await awaitedAny(subscribe)(['success', 'failure'], { timeout: 5000 });
+ * if (result.eventName === 'success') {
+ *   console.log(`User ${result.data.userId} logged in`); // `data` is narrowed to `{ userId: string }`
+ * }
+ */
+export type SubscribeAwaitedAny<Event extends EventDescription<string, UnsafeAny>> = <
+	EventType extends keyof Event & string
+>(
+	eventNames: readonly EventType[],
+	options?: AwaitedOptions<AnyEventPredicate<Pick<Event, EventType>>>
+) => Promise<AnyEvent<Pick<Event, EventType>>>;
+
+/**
+ * Utility function to subscribe to several events and return a promise that resolves with the name and the data of
+ * the first of them to be triggered. It automatically unsubscribes from all the events once the promise settles,
+ * which happens the same way as with `awaited`.
+ *
+ * @template Event - The event description type.
+ * @param subscribe - The original `subscribe` function to wrap with the `awaitedAny` functionality.
+ * @returns A function that subscribes to several events and returns a promise that resolves with the first event.
+ */
+export const awaitedAny =
+	<Event extends EventDescription<string, UnsafeAny>>(subscribe: SubscribeEvent<Event>): SubscribeAwaitedAny<Event> =>
+	<EventType extends keyof Event & string>(
+		eventNames: readonly EventType[],
+		{ predicate, priority, ...options }: AwaitedOptions<AnyEventPredicate<Pick<Event, EventType>>> = {}
+	) =>
+		waitForEvent<AnyEvent<Pick<Event, EventType>>>(
+			settle =>
+				eventNames.map(eventName => {
+					const toEvent = (data: Event[EventType]): AnyEvent<Pick<Event, EventType>> =>
+						({ eventName, data }) as AnyEvent<Pick<Event, EventType>>;
+					return subscribe(eventName, (_, data) => settle(toEvent(data)), {
+						predicate: predicate && ((data): boolean => predicate(toEvent(data))),
+						priority
+					});
+				}),
+			eventNames.map(eventName => `"${eventName}"`).join(" or "),
+			options
+		);
@@ -0,0 +1,197 @@
+import type { EventDescription, SubscribeEvent, SubscribeOptions } from "./eventEmitter";
+import { type UnsafeAny, unsubscribeNothing } from "./internal";
+
+/**
+ * How an event iterator deals with an event arriving while its buffer is full:
+ * - `"dropOldest"` discards the oldest buffered event to make room for the new one.
+ * - `"dropNewest"` discards the new event.
+ * - `"error"` stops the iteration, which throws a `BufferOverflowError` once the buffered events are consumed.
+ */
+export type EventIteratorOverflowPolicy = "dropOldest" | "dropNewest" | "error";
+
+/**
+ * Options of an event iterator created by `on`.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ *
+ * @example
+ * // Keep the 100 latest messages when the consumer falls behind
+ * on(subscribe, 'message', { bufferSize: 100, overflow: 'dropOldest' });
+ */
+export type EventIteratorOptions<
+	Event extends EventDescription<string, UnsafeAny>,
+	EventType extends keyof Event & string = keyof Event & string
+> = SubscribeOptions<Event, EventType> & {
+	/**
+	 * The maximum number of events buffered between iterations. Unbounded if omitted.
+	 */
+	bufferSize?: number;
+	/**
+	 * How to deal with an event arriving while the buffer is full. Defaults to `"error"`.
+	 */
+	overflow?: EventIteratorOverflowPolicy;
+};
+
+/**
+ * Error thrown by an event iterator whose buffer overflowed with the `"error"` overflow policy.
+ *
+ * @example
+ * try {
+ *   for await (const data of on(subscribe, 'message', { bufferSize: 100 })) {
+ *     await processMessage(data);
+ *   }
+ * } catch (error) {
+ *   if (error instanceof BufferOverflowError) {
+ *     console.log(`More than ${error.bufferSize} messages were pending`);
+ *   }
+ * }
+ */
+export class BufferOverflowError extends Error {
+	/**
+	 * The size of the buffer which overflowed.
+	 */
+	readonly bufferSize: number;
+
+	/**
+	 * Creates a buffer overflow error.
+	 *
+	 * @param message - The error message.
+	 * @param bufferSize - The size of the buffer which overflowed.
+	 */
+	constructor(message: string, bufferSize: number) {
+		super(message);
+		this.name = "BufferOverflowError";
+		this.bufferSize = bufferSize;
+	}
+}
+
+/**
+ * A pending call to the `next` method of an event iterator waiting for an event.
+ *
+ * @template Data - The type of the event data.
+ */
+type PendingNext<Data> = {
+	resolve: (result: IteratorResult<Data>) => void;
+	reject: (error: unknown) => void;
+};
+
+/**
+ * Creates an async iterator over the occurrences of an event, making it possible to consume events with
+ * `for await...of`. The events emitted between iterations are buffered.
+ *
+ * The iterator unsubscribes when the loop breaks, when its `return` method is called, when its buffer overflows with
+ * the `"error"` overflow policy, or when the optional signal is aborted, in which case the iteration throws the reason
+ * of the signal and the buffered events are discarded.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ * @param subscribe - The `subscribe` function of the emitter.
+ * @param eventName - The name of the event to iterate over.
+ * @param options - The optional predicate, priority, signal, buffer size, and overflow policy.
+ * @returns An async iterator yielding the data of the event occurrences.
+ *
+ * @example
+ * type WorkerEvents = EventDescription<'message', { id: string; payload: string }>;
+ *
+ * const [subscribe, emit] = createEventEmitter<WorkerEvents>();
+ *
+ * for await (const data of on(subscribe, 'message')) {
+ *   await processMessage(data);
+ *   if (data.payload === 'stop') {
+ *     break; // Unsubscribes from the `message` event
+ *   }
+ * }
+ */
+export const on = <Event extends EventDescription<string, UnsafeAny>, EventType extends keyof Event & string>(
+	subscribe: SubscribeEvent<Event>,
+	eventName: EventType,
+	{
+		bufferSize = Number.POSITIVE_INFINITY,
+		overflow = "error",
+		signal,
+		...options
+	}: EventIteratorOptions<Event, EventType> = {}
+): AsyncIterableIterator<Event[EventType]> => {
+	const buffer: Event[EventType][] = [];
+	const pendingNexts: PendingNext<Event[EventType]>[] = [];
+	let failure: { error: unknown } | undefined;
+	let finished = false;
+	// Replaced once subscribed, since the replayed payloads of a sticky event may overflow the buffer beforehand
+	let unsubscribe = unsubscribeNothing;
+
+	const finish = (): void => {
+		finished = true;
+		unsubscribe();
+		signal?.removeEventListener("abort", onAbort);
+		for (const { resolve } of pendingNexts.splice(0)) {
+			resolve({ done: true, value: undefined });
+		}
+	};
+	const fail = (error: unknown): void => {
+		const pendingNext = pendingNexts.shift();
+		if (pendingNext) {
+			pendingNext.reject(error);
+		} else {
+			failure = { error };
+		}
+		finish();
+	};
+	const push = (data: Event[EventType]): void => {
+		const pendingNext = pendingNexts.shift();
+		if (pendingNext) {
+			pendingNext.resolve({ done: false, value: data });
+		} else if (buffer.length < bufferSize) {
+			buffer.push(data);
+		} else if (overflow === "dropOldest") {
+			buffer.push(data);
+			buffer.shift();
+		} else if (overflow === "error") {
+			fail(
+				new BufferOverflowError(
+					`The buffer of "${eventName}" events overflowed its size of ${bufferSize}`,
+					bufferSize
+				)
+			);
+		}
+	};
+	const onAbort = (): void => {
+		buffer.length = 0;
+		fail(signal?.reason);
+	};
+	unsubscribe = subscribe(eventName, (_, data) => push(data), options);
+	if (finished) {
+		unsubscribe();
+	} else if (signal?.aborted) {
+		onAbort();
+	} else {
+		signal?.addEventListener("abort", onAbort, { once: true });
+	}
+
+	const iterator: AsyncIterableIterator<Event[EventType]> = {
+		next: () => {
+			if (buffer.length > 0) {
+				return Promise.resolve({ done: false, value: buffer.shift() as Event[EventType] });
+			}
+			if (failure) {
+				const { error } = failure;
+				failure = undefined;
+				return Promise.reject(error);
+			}
+			if (finished) {
+				return Promise.resolve({ done: true, value: undefined });
+			}
+			return new Promise((resolve, reject) => {
+				pendingNexts.push({ resolve, reject });
+			});
+		},
+		return: () => {
+			buffer.length = 0;
+			failure = undefined;
+			finish();
+			return Promise.resolve({ done: true, value: undefined });
+		},
+		[Symbol.asyncIterator]: () => iterator
+	};
+	return iterator;
+};
@@ -0,0 +1,147 @@
+import type { EventDescription, EventEmitter } from "./eventEmitter";
+import type { SpyEventEmitter } from "./spyEventEmitter";
+import type { UnsafeAny } from "./internal";
+
+/**
+ * The part of the context of Jest and Vitest matchers used by `eventMatchers`.
+ */
+export type EventMatcherContext = {
+	equals: (a: unknown, b: unknown) => boolean;
+	utils: {
+		printExpected: (value: unknown) => string;
+		printReceived: (value: unknown) => string;
+	};
+};
+
+/**
+ * The result of a matcher of `eventMatchers`, as expected by Jest and Vitest.
+ */
+export type EventMatcherResult = {
+	pass: boolean;
+	message: () => string;
+};
+
+/**
+ * The signatures of the matchers of `eventMatchers`, to declare them for the `expect` function of Jest or Vitest.
+ *
+ * @template R - The type returned by the matchers, as declared by the test framework.
+ *
+ * @example
+ * // Jest
+ * declare global {
+ *   namespace jest {
+ *     interface Matchers<R> extends EventMatchers<R> {}
+ *   }
+ * }
+ *
+ * // Vitest
+ * declare module 'vitest' {
+ *   interface Assertion<T = any> extends EventMatchers<T> {}
+ * }
+ */
+export type EventMatchers<R = unknown> = {
+	/**
+	 * Checks that a spy emitter emitted an event, with the given data if it is provided.
+	 */
+	toHaveEmitted: (eventName: string, ...data: [] | [unknown]) => R;
+	/**
+	 * Checks that a spy emitter emitted an event the given number of times.
+	 */
+	toHaveEmittedTimes: (eventName: string, times: number) => R;
+	/**
+	 * Checks that emitting an event, or any event if no name is provided, calls no listener of an emitter.
+	 */
+	toHaveNoListeners: (eventName?: string) => R;
+};
+
+/**
+ * Utility function to take the data of the events with a given name emitted by a spy emitter.
+ *
+ * @param received - The value passed to `expect`, which should be a spy emitter.
+ * @param eventName - The name of the events.
+ * @returns The data of the events, in the order they were emitted.
+ */
+const emittedData = (received: unknown, eventName: string): unknown[] => {
+	const emitted = (<Partial<SpyEventEmitter<EventDescription<string, UnsafeAny>>> | undefined>received)?.emitted;
+	if (!Array.isArray(emitted)) {
+		throw new TypeError("The received value isn't a spy emitter created with `createSpyEmitter`");
+	}
+	return emitted.filter(event => event.eventName === eventName).map(({ data }) => data);
+};
+
+/**
+ * Matchers checking the events emitted by spy emitters and the listeners of emitters, to add to Jest or Vitest with
+ * `expect.extend`. The data of the events is compared with the equality of the test framework, so it may contain
+ * asymmetric matchers such as `expect.objectContaining`.
+ *
+ * @example
+ * import { createSpyEmitter, eventMatchers } from 'zohar/testing';
+ *
+ * expect.extend(eventMatchers);
+ *
+ * const emitter = createSpyEmitter<AppEvents>();
+ * const session = createSession(emitter);
+ *
+ * session.login('user1');
+ * session.close();
+ *
+ * expect(emitter).toHaveEmitted('userLogin', { userId: 'user1' });
+ * expect(emitter).toHaveEmittedTimes('userLogout', 0);
+ * expect(emitter).toHaveNoListeners();
+ */
+export const eventMatchers = {
+	toHaveEmitted(
+		this: EventMatcherContext,
+		received: unknown,
+		eventName: string,
+		...data: [] | [unknown]
+	): EventMatcherResult {
+		const receivedData = emittedData(received, eventName);
+		const expectedData = data.length > 0 ? ` with ${this.utils.printExpected(data[0])}` : "";
+		const pass =
+			data.length > 0 ? receivedData.some(entry => this.equals(entry, data[0])) : receivedData.length > 0;
+		return {
+			pass,
+			message: (): string =>
+				pass
+					? `Expected the emitter not to have emitted "${eventName}"${expectedData}`
+					: `Expected the emitter to have emitted "${eventName}"${expectedData}, but ${
+							receivedData.length > 0
+								? `it was emitted with ${this.utils.printReceived(receivedData)}`
+								: "it wasn't emitted"
+						}`
+		};
+	},
+	toHaveEmittedTimes(
+		this: EventMatcherContext,
+		received: unknown,
+		eventName: string,
+		times: number
+	): EventMatcherResult {
+		const count = emittedData(received, eventName).length;
+		const pass = count === times;
+		return {
+			pass,
+			message: (): string =>
+				`Expected the emitter ${pass ? "not " : ""}to have emitted "${eventName}" ${this.utils.printExpected(
+					times
+				)} times, but it was emitted ${this.utils.printReceived(count)} times`
+		};
+	},
+	toHaveNoListeners(this: EventMatcherContext, received: unknown, eventName?: string): EventMatcherResult {
+		const listenerCount = (<Partial<EventEmitter<EventDescription<string, UnsafeAny>>> | undefined>received)
+			?.listenerCount;
+		if (typeof listenerCount !== "function") {
+			throw new TypeError("The received value isn't an emitter");
+		}
+		const count = listenerCount(eventName);
+		const subject = eventName === undefined ? "the emitter" : `"${eventName}"`;
+		return {
+			pass: count === 0,
+			message: (): string =>
+				count === 0
+					? `Expected ${subject} to have listeners`
+					: `Expected ${subject} to have no listeners, but it has ${this.utils.printReceived(count)}`
+		};
+	}
+};
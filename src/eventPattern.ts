@@ -0,0 +1,106 @@
+/**
+ * The separator between the segments of hierarchical event names, such as `chat:message:received`.
+ */
+export const EVENT_NAME_SEPARATOR = ":";
+
+/**
+ * Splits a hierarchical event name or pattern into its segments.
+ *
+ * @template Name - The event name or pattern.
+ *
+ * @example
+ * // ["chat", "message", "received"]
+ * type Segments = EventNameSegments<"chat:message:received">;
+ */
+export type EventNameSegments<Name extends string> =
+	Name extends `${infer Head}${typeof EVENT_NAME_SEPARATOR}${infer Tail}`
+		? [Head, ...EventNameSegments<Tail>]
+		: [Name];
+
+/**
+ * Checks whether the segments of an event name match the segments of a pattern.
+ *
+ * @template NameSegments - The segments of the event name.
+ * @template PatternSegments - The segments of the pattern.
+ */
+type SegmentsMatch<NameSegments extends string[], PatternSegments extends string[]> = PatternSegments extends [
+	infer PatternHead extends string,
+	...infer PatternTail extends string[]
+]
+	? PatternHead extends "**"
+		? SegmentsMatch<NameSegments, PatternTail> extends true
+			? true
+			: NameSegments extends [string, ...infer NameTail extends string[]]
+				? SegmentsMatch<NameTail, PatternSegments>
+				: false
+		: NameSegments extends [infer NameHead extends string, ...infer NameTail extends string[]]
+			? PatternHead extends "*" | NameHead
+				? SegmentsMatch<NameTail, PatternTail>
+				: false
+			: false
+	: NameSegments extends []
+		? true
+		: false;
+
+/**
+ * Resolves to `true` if an event name matches a pattern and to `false` otherwise.
+ *
+ * Patterns are event names whose segments may be wildcards:
+ * - `*` matches exactly one segment, so `chat:*` matches `chat:joined` but not `chat:message:received`.
+ * - `**` matches any number of segments, including none, so `chat:**` matches `chat`, `chat:joined` and
+ *   `chat:message:received`.
+ *
+ * @template Name - The event name.
+ * @template Pattern - The pattern to match the event name against.
+ *
+ * @example
+ * type Matches = EventNameMatches<"chat:message:received", "chat:**">; // true
+ * type DoesNotMatch = EventNameMatches<"chat:message:received", "chat:*">; // false
+ */
+export type EventNameMatches<Name extends string, Pattern extends string> = SegmentsMatch<
+	EventNameSegments<Name>,
+	EventNameSegments<Pattern>
+>;
+
+/**
+ * Utility function to check whether the segments of an event name match the segments of a pattern.
+ *
+ * @param nameSegments - The segments of the event name.
+ * @param patternSegments - The segments of the pattern.
+ * @returns A boolean indicating whether the event name matches the pattern.
+ */
+const segmentsMatch = (nameSegments: string[], patternSegments: string[]): boolean => {
+	if (patternSegments.length === 0) {
+		return nameSegments.length === 0;
+	}
+	const [patternHead, ...patternTail] = patternSegments;
+	if (patternHead === "**") {
+		return (
+			segmentsMatch(nameSegments, patternTail) ||
+			(nameSegments.length > 0 && segmentsMatch(nameSegments.slice(1), patternSegments))
+		);
+	}
+	if (nameSegments.length === 0) {
+		return false;
+	}
+	return (
+		(patternHead === "*" || patternHead === nameSegments[0]) && segmentsMatch(nameSegments.slice(1), patternTail)
+	);
+};
+
+/**
+ * Creates a function checking whether event names match a pattern. See `EventNameMatches` for the pattern syntax.
+ *
+ * @param pattern - The pattern to match event names against.
+ * @returns A function returning `true` for the event names matching the pattern.
+ *
+ * @example
+ * const isChatEvent = createEventNameMatcher("chat:**");
+ *
+ * isChatEvent("chat:message:received"); // true
+ * isChatEvent("user:joined"); // false
+ */
+export const createEventNameMatcher = (pattern: string): ((eventName: string) => boolean) => {
+	const patternSegments = pattern.split(EVENT_NAME_SEPARATOR);
+	return eventName => segmentsMatch(eventName.split(EVENT_NAME_SEPARATOR), patternSegments);
+};
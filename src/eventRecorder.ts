@@ -0,0 +1,269 @@
+import type {
+	AnyEvent,
+	AnyEventPredicate,
+	EmitEvent,
+	EmitMiddleware,
+	EventDescription,
+	EventEmitter,
+	UnsubscribeEvent
+} from "./eventEmitter";
+import type { UnsafeAny } from "./internal";
+
+/**
+ * An event captured by a recorder, along with the time it was emitted at and its position in the recording.
+ *
+ * @template Event - The event description type.
+ */
+export type RecordedEvent<Event extends EventDescription<string, UnsafeAny>> = AnyEvent<Event> & {
+	/**
+	 * The time the event was emitted at, in milliseconds, as returned by the `now` function of the clock.
+	 */
+	timestamp: number;
+	/**
+	 * The position of the event among the events recorded by the recorder, starting at 0. It keeps increasing when the
+	 * oldest events are dropped, which makes gaps in a recording visible.
+	 */
+	sequence: number;
+};
+
+/**
+ * The clock used to timestamp recorded events and to wait between replayed events. It can be replaced in tests.
+ *
+ * @example
+ * // A clock whose time only moves when the replay waits
+ * let time = 0;
+ * const clock: EventClock = {
+ *   now: () => time,
+ *   sleep: async ms => {
+ *     time += ms;
+ *   }
+ * };
+ */
+export type EventClock = {
+	/**
+	 * Returns the current time in milliseconds.
+	 */
+	now: () => number;
+	/**
+	 * Returns a promise resolving after the given number of milliseconds.
+	 */
+	sleep: (ms: number) => Promise<void>;
+};
+
+/**
+ * Options of a recorder created with `createEventRecorder`.
+ *
+ * @template Event - The event description type.
+ *
+ * @example
+ * // Record the 100 latest failed requests
+ * createEventRecorder(emitter, {
+ *   capacity: 100,
+ *   events: ['requestFailed'],
+ *   predicate: ({ data }) => data.status >= 500
+ * });
+ */
+export type EventRecorderOptions<Event extends EventDescription<string, UnsafeAny>> = {
+	/**
+	 * The maximum number of recorded events. Once it is reached, the oldest events are dropped. Defaults to 1000.
+	 */
+	capacity?: number;
+	/**
+	 * The names of the events to record. All the events are recorded if omitted.
+	 */
+	events?: readonly (keyof Event & string)[];
+	/**
+	 * The predicate filtering which events to record.
+	 */
+	predicate?: AnyEventPredicate<Event>;
+	/**
+	 * The clock timestamping the recorded events. Defaults to the system clock.
+	 */
+	clock?: EventClock;
+};
+
+/**
+ * A recorder capturing the events emitted by an emitter, created with `createEventRecorder`.
+ *
+ * @template Event - The event description type.
+ */
+export type EventRecorder<Event extends EventDescription<string, UnsafeAny>> = {
+	/**
+	 * Returns the recorded events, from the oldest to the latest.
+	 */
+	entries: () => RecordedEvent<Event>[];
+	/**
+	 * Forgets the recorded events.
+	 */
+	clear: () => void;
+	/**
+	 * Returns the recorded events as a JSON string, e.g. to attach it to a bug report.
+	 */
+	exportJSON: () => string;
+	/**
+	 * Replaces the recorded events with the ones of a JSON string returned by `exportJSON`. The next recorded events
+	 * follow the imported ones.
+	 *
+	 * @throws {TypeError} If the JSON string isn't a recording.
+	 */
+	importJSON: (json: string) => void;
+	/**
+	 * Stops recording. It returns `true` if the recorder was recording, and `false` otherwise.
+	 */
+	stop: UnsubscribeEvent;
+};
+
+/**
+ * Options of `replayEvents`.
+ */
+export type ReplayOptions = {
+	/**
+	 * Whether to emit the events at once (`"instant"`) or to wait between them as long as when they were recorded
+	 * (`"original"`). Defaults to `"instant"`.
+	 */
+	timing?: "instant" | "original";
+	/**
+	 * The clock used to wait between the events with the `"original"` timing. Defaults to the system clock.
+	 */
+	clock?: EventClock;
+	/**
+	 * An `AbortSignal` stopping the replay, which then rejects with the reason of the signal.
+	 */
+	signal?: AbortSignal;
+};
+
+/**
+ * The system clock, based on `Date.now` and `setTimeout`.
+ */
+const systemClock: EventClock = {
+	now: () => Date.now(),
+	sleep: ms => new Promise(resolve => setTimeout(resolve, ms))
+};
+
+/**
+ * Utility function to check whether a value parsed from JSON is a recorded event.
+ *
+ * @param value - The parsed value.
+ * @returns A boolean indicating whether the value is a recorded event.
+ */
+const isRecordedEvent = (value: unknown): value is RecordedEvent<EventDescription<string, unknown>> =>
+	typeof value === "object" &&
+	value !== null &&
+	typeof (<Partial<RecordedEvent<EventDescription<string, unknown>>>>value).eventName === "string" &&
+	typeof (<Partial<RecordedEvent<EventDescription<string, unknown>>>>value).timestamp === "number" &&
+	typeof (<Partial<RecordedEvent<EventDescription<string, unknown>>>>value).sequence === "number";
+
+/**
+ * Attaches a recorder to an emitter, capturing the events passing through its `emit`, `emitCancelable`, `emitAsync`
+ * and `emitSerial` functions, whether or not any listener is subscribed to them. This helps debugging and reproducing
+ * bug reports, along with `replayEvents`.
+ *
+ * The recorder is added as a middleware of the emitter, so it records the data passed on by the middleware added
+ * before it. The recorded events are kept in a ring buffer, which drops the oldest events once its capacity is
+ * reached. The data of the events should be serializable to JSON to export the recording.
+ *
+ * @template Event - The event description type.
+ * @param emitter - The emitter to record the events of.
+ * @param options - The optional capacity, event names, predicate, and clock.
+ * @returns A recorder giving access to the recorded events.
+ *
+ * @example
+ * const emitter = createEventEmitter<AppEvents>();
+ * const recorder = createEventRecorder(emitter, { events: ['userLogin', 'userLogout'] });
+ *
+ * emitter.emit('userLogin', { userId: 'user1', timestamp: new Date() });
+ *
+ * // Attach the recording to a bug report
+ * const recording = recorder.exportJSON();
+ *
+ * // Reproduce the bug later
+ * const replayed = createEventEmitter<AppEvents>();
+ * subscribeListeners(replayed);
+ * await replayEvents(replayed.emit, JSON.parse(recording), { timing: 'original' });
+ */
+export const createEventRecorder = <Event extends EventDescription<string, UnsafeAny>>(
+	emitter: Pick<EventEmitter<Event>, "use">,
+	{ capacity = 1000, events, predicate, clock = systemClock }: EventRecorderOptions<Event> = {}
+): EventRecorder<Event> => {
+	// The ring buffer, whose oldest event is at the `start` index once it is full
+	let buffer: RecordedEvent<Event>[] = [];
+	let start = 0;
+	let nextSequence = 0;
+
+	const push = (entry: RecordedEvent<Event>): void => {
+		if (buffer.length < capacity) {
+			buffer.push(entry);
+		} else {
+			buffer[start] = entry;
+			start = (start + 1) % capacity;
+		}
+	};
+	const entries = (): RecordedEvent<Event>[] => [...buffer.slice(start), ...buffer.slice(0, start)];
+	const clear = (): void => {
+		buffer = [];
+		start = 0;
+	};
+
+	const record: EmitMiddleware<Event> = (eventName, data, next) => {
+		const event = <AnyEvent<Event>>{ eventName, data };
+		if ((!events || events.includes(eventName)) && (!predicate || predicate(event))) {
+			push({ ...event, timestamp: clock.now(), sequence: nextSequence++ });
+		}
+		return next(data);
+	};
+
+	return {
+		entries,
+		clear,
+		exportJSON: () => JSON.stringify(entries()),
+		importJSON: (json): void => {
+			const recording: unknown = JSON.parse(json);
+			if (!Array.isArray(recording) || !recording.every(entry => isRecordedEvent(entry))) {
+				throw new TypeError("The JSON string isn't a recording of events");
+			}
+			clear();
+			for (const entry of <RecordedEvent<Event>[]>recording) {
+				push(entry);
+				nextSequence = entry.sequence + 1;
+			}
+		},
+		stop: emitter.use(record)
+	};
+};
+
+/**
+ * Replays recorded events into an emitter, either at once or respecting the time elapsed between them when they were
+ * recorded.
+ *
+ * @template Event - The event description type.
+ * @param emit - The `emit` function of the emitter to replay the events into.
+ * @param entries - The recorded events, as returned by the `entries` method of a recorder or parsed from its JSON.
+ * @param options - The optional timing, clock, and signal.
+ * @returns A promise resolving once all the events are emitted, or rejecting with the reason of the signal when it is
+ * aborted.
+ *
+ * @example
+ * // Replay a recording instantly
+ * await replayEvents(emitter.emit, recorder.entries());
+ *
+ * // Replay a recording with its original timing, stopping after 10 seconds
+ * await replayEvents(emitter.emit, recording, { timing: 'original', signal: AbortSignal.timeout(10_000) });
+ */
+export const replayEvents = async <Event extends EventDescription<string, UnsafeAny>>(
+	emit: EmitEvent<Event>,
+	entries: readonly RecordedEvent<Event>[],
+	{ timing = "instant", clock = systemClock, signal }: ReplayOptions = {}
+): Promise<void> => {
+	let previousTimestamp: number | undefined;
+	for (const { eventName, data, timestamp } of entries) {
+		const elapsed = timing === "original" && previousTimestamp !== undefined ? timestamp - previousTimestamp : 0;
+		if (elapsed > 0) {
+			await clock.sleep(elapsed);
+		}
+		if (signal?.aborted) {
+			throw signal.reason;
+		}
+		emit(eventName, data);
+		previousTimestamp = timestamp;
+	}
+};
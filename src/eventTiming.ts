@@ -0,0 +1,301 @@
+import type {
+	EventDescription,
+	EventListener,
+	EventPredicate,
+	SubscribeEvent,
+	SubscribeOptions,
+	UnsubscribeEvent
+} from "./eventEmitter";
+import { reportUnhandledError, type UnsafeAny } from "./internal";
+
+/**
+ * Options of `debounce`, also accepted by `throttle` and `batch`.
+ */
+export type TimingOptions = {
+	/**
+	 * Callback receiving the errors of the listener, thrown or rejected, when it is called once a timer elapses, since
+	 * they can't propagate to the caller of `emit` anymore. Defaults to `console.error`.
+	 */
+	onError?: (error: unknown, eventName: string) => void;
+};
+
+/**
+ * Options of `throttle`.
+ */
+export type ThrottleOptions = TimingOptions & {
+	/**
+	 * Whether to call the listener with the first event of each interval, as soon as it is emitted. Defaults to `true`.
+	 */
+	leading?: boolean;
+	/**
+	 * Whether to call the listener with the latest event emitted during an interval, once the interval ends. Defaults to
+	 * `true`.
+	 */
+	trailing?: boolean;
+};
+
+/**
+ * Options of `batch`. At least one of `size` and `ms` must be provided, since a batch would never be delivered
+ * otherwise.
+ */
+export type BatchOptions = TimingOptions & {
+	/**
+	 * The number of payloads delivering a batch as soon as it is reached.
+	 */
+	size?: number;
+	/**
+	 * The number of milliseconds after the first payload of a batch delivering the batch.
+	 */
+	ms?: number;
+} & ({ size: number } | { ms: number });
+
+/**
+ * Type for listeners receiving the payloads of an event in batches.
+ *
+ * @template Event - The event description type.
+ * @template EventType - The specific event type within the event description.
+ */
+export type BatchListener<
+	Event extends EventDescription<string, UnsafeAny>,
+	EventType extends keyof Event & string = keyof Event & string
+> = (eventName: EventType, data: Event[EventType][]) => void | Promise<void>;
+
+/**
+ * Function type to subscribe to an event with a listener receiving its payloads in batches.
+ *
+ * @template Event - The event description type.
+ */
+export type SubscribeBatched<Event extends EventDescription<string, UnsafeAny>> = <
+	EventType extends keyof Event & string
+>(
+	eventName: EventType,
+	listener: BatchListener<Event, EventType>,
+	predicateOrOptions?: EventPredicate<Event, EventType> | SubscribeOptions<Event, EventType>
+) => UnsubscribeEvent;
+
+/**
+ * Utility function to cancel the pending timer of a subscription when unsubscribing, or when the signal of its options
+ * is aborted, since the original `subscribe` function only unsubscribes the wrapping listener then.
+ *
+ * @param unsubscribe - The function unsubscribing the listener.
+ * @param cancel - The function canceling the pending timer.
+ * @param predicateOrOptions - The predicate or the options of the subscription, possibly holding a signal.
+ * @returns A function unsubscribing the listener and canceling its pending timer.
+ */
+const cancelOnUnsubscribe = (
+	unsubscribe: UnsubscribeEvent,
+	cancel: () => void,
+	predicateOrOptions?: EventPredicate<UnsafeAny, UnsafeAny> | SubscribeOptions<UnsafeAny, UnsafeAny>
+): UnsubscribeEvent => {
+	const signal = typeof predicateOrOptions === "function" ? undefined : predicateOrOptions?.signal;
+	signal?.addEventListener("abort", cancel, { once: true });
+	return (): boolean => {
+		signal?.removeEventListener("abort", cancel);
+		cancel();
+		return unsubscribe();
+	};
+};
+
+/**
+ * Utility function to call a listener once its timer elapsed, passing its errors to the error callback since no caller
+ * can catch them.
+ *
+ * @param eventName - The name of the event the listener is subscribed to.
+ * @param call - The function calling the listener.
+ * @param onError - The callback receiving the errors of the listener.
+ */
+const callLater = (
+	eventName: string,
+	call: () => void | Promise<void>,
+	onError: (error: unknown, eventName: string) => void
+): void => {
+	try {
+		const result = call();
+		if (result instanceof Promise) {
+			result.catch((error: unknown) => onError(error, eventName));
+		}
+	} catch (error) {
+		onError(error, eventName);
+	}
+};
+
+/**
+ * Utility function to subscribe to events with a listener only called once the event stops being emitted for a given
+ * time, with the latest payload. The payloads emitted in between are dropped.
+ *
+ * The returned `subscribe` function accepts the same predicates and options as the original one. The function it
+ * returns unsubscribes the listener and cancels its pending call, as does aborting the signal of the options.
+ *
+ * @template Event - The event description type.
+ * @param subscribe - The original `subscribe` function to wrap.
+ * @param ms - The number of milliseconds without any event before calling the listener.
+ * @param options - The callback receiving the errors of the listener.
+ * @returns A function subscribing to an event with a debounced listener.
+ *
+ * @example
+ * type WindowEvents = EventDescription<'resize', { width: number; height: number }>;
+ *
+ * const [subscribe, emit] = createEventEmitter<WindowEvents>();
+ *
+ * // Lay the page out again once the window stops being resized for 200 ms
+ * const unsubscribe = debounce(subscribe, 200)('resize', (eventName, { width, height }) => layout(width, height));
+ */
+export const debounce =
+	<Event extends EventDescription<string, UnsafeAny>>(
+		subscribe: SubscribeEvent<Event>,
+		ms: number,
+		{ onError = reportUnhandledError }: TimingOptions = {}
+	): SubscribeEvent<Event> =>
+	<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: EventListener<Event, EventType>,
+		predicateOrOptions?: EventPredicate<Event, EventType> | SubscribeOptions<Event, EventType>
+	): UnsubscribeEvent => {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const cancel = (): void => clearTimeout(timer);
+		const unsubscribe = subscribe(
+			eventName,
+			(_, data) => {
+				cancel();
+				timer = setTimeout(() => callLater(eventName, () => listener(eventName, data), onError), ms);
+			},
+			predicateOrOptions
+		);
+		return cancelOnUnsubscribe(unsubscribe, cancel, predicateOrOptions);
+	};
+
+/**
+ * Utility function to subscribe to events with a listener called at most once per interval. By default, the listener
+ * is called with the first event of an interval as soon as it is emitted, and with the latest event emitted during
+ * the interval once it ends, which starts a new interval.
+ *
+ * The returned `subscribe` function accepts the same predicates and options as the original one. The function it
+ * returns unsubscribes the listener and cancels its pending call, as does aborting the signal of the options.
+ *
+ * @template Event - The event description type.
+ * @param subscribe - The original `subscribe` function to wrap.
+ * @param ms - The length of the interval in milliseconds.
+ * @param options - Whether to call the listener on the leading and trailing edges of the interval, and the callback
+ * receiving the errors of the listener.
+ * @returns A function subscribing to an event with a throttled listener.
+ *
+ * @example
+ * type PointerEvents = EventDescription<'move', { x: number; y: number }>;
+ *
+ * const [subscribe, emit] = createEventEmitter<PointerEvents>();
+ *
+ * // Draw the cursor at most every 16 ms
+ * throttle(subscribe, 16)('move', (eventName, { x, y }) => drawCursor(x, y));
+ *
+ * // Only report the latest position every second
+ * throttle(subscribe, 1000, { leading: false })('move', reportPosition);
+ */
+export const throttle =
+	<Event extends EventDescription<string, UnsafeAny>>(
+		subscribe: SubscribeEvent<Event>,
+		ms: number,
+		{ leading = true, trailing = true, onError = reportUnhandledError }: ThrottleOptions = {}
+	): SubscribeEvent<Event> =>
+	<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: EventListener<Event, EventType>,
+		predicateOrOptions?: EventPredicate<Event, EventType> | SubscribeOptions<Event, EventType>
+	): UnsubscribeEvent => {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		// The latest payload emitted during the interval, waiting for its end
+		let pending: { data: Event[EventType] } | undefined;
+
+		const endInterval = (): void => {
+			if (trailing && pending) {
+				const { data } = pending;
+				pending = undefined;
+				timer = setTimeout(endInterval, ms);
+				callLater(eventName, () => listener(eventName, data), onError);
+			} else {
+				timer = undefined;
+			}
+		};
+		const cancel = (): void => {
+			clearTimeout(timer);
+			pending = undefined;
+		};
+
+		const unsubscribe = subscribe(
+			eventName,
+			(_, data) => {
+				if (timer) {
+					pending = { data };
+					return;
+				}
+				timer = setTimeout(endInterval, ms);
+				if (leading) {
+					listener(eventName, data);
+				} else {
+					pending = { data };
+				}
+			},
+			predicateOrOptions
+		);
+		return cancelOnUnsubscribe(unsubscribe, cancel, predicateOrOptions);
+	};
+
+/**
+ * Utility function to subscribe to events with a listener receiving their payloads in batches. A batch is delivered
+ * once it holds `size` payloads, or `ms` milliseconds after its first payload, whichever comes first.
+ *
+ * The returned `subscribe` function accepts the same predicates and options as the original one. The function it
+ * returns unsubscribes the listener and cancels its pending batch, whose payloads are dropped, as does aborting the
+ * signal of the options.
+ *
+ * @template Event - The event description type.
+ * @param subscribe - The original `subscribe` function to wrap.
+ * @param options - The size and the delay delivering a batch, and the callback receiving the errors of the listener.
+ * @returns A function subscribing to an event with a listener receiving arrays of payloads.
+ *
+ * @example
+ * type LogEvents = EventDescription<'log', { level: string; message: string }>;
+ *
+ * const [subscribe, emit] = createEventEmitter<LogEvents>();
+ *
+ * // Send the logs by 50, or every 5 seconds
+ * batch(subscribe, { size: 50, ms: 5000 })('log', (eventName, entries) => sendLogs(entries));
+ */
+export const batch =
+	<Event extends EventDescription<string, UnsafeAny>>(
+		subscribe: SubscribeEvent<Event>,
+		{ size = Number.POSITIVE_INFINITY, ms, onError = reportUnhandledError }: BatchOptions
+	): SubscribeBatched<Event> =>
+	<EventType extends keyof Event & string>(
+		eventName: EventType,
+		listener: BatchListener<Event, EventType>,
+		predicateOrOptions?: EventPredicate<Event, EventType> | SubscribeOptions<Event, EventType>
+	): UnsubscribeEvent => {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let payloads: Event[EventType][] = [];
+
+		const cancel = (): void => {
+			clearTimeout(timer);
+			timer = undefined;
+			payloads = [];
+		};
+		const flush = (): void | Promise<void> => {
+			const batchedPayloads = payloads;
+			cancel();
+			return listener(eventName, batchedPayloads);
+		};
+		const flushLater = (): void => callLater(eventName, flush, onError);
+
+		const unsubscribe = subscribe(
+			eventName,
+			(_, data) => {
+				payloads.push(data);
+				if (payloads.length >= size) {
+					flush();
+				} else if (ms !== undefined && !timer) {
+					timer = setTimeout(flushLater, ms);
+				}
+			},
+			predicateOrOptions
+		);
+		return cancelOnUnsubscribe(unsubscribe, cancel, predicateOrOptions);
+	};
@@ -1 +1,12 @@
+export * from "./childEventEmitter";
+export * from "./derivedEventEmitter";
+export * from "./eventAdapters";
+export * from "./eventBridge";
 export * from "./eventEmitter";
+export * from "./eventIterator";
+export * from "./eventPattern";
+export * from "./eventRecorder";
+export * from "./eventTiming";
+export * from "./requestChannel";
+export * from "./store";
+export * from "./validatedEventEmitter";
@@ -0,0 +1,31 @@
+import type { UnsubscribeEvent } from "./eventEmitter";
+
+// A type alias for `any` used to explicitly indicate potentially unsafe usage
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- We need it for parameter type
+export type UnsafeAny = any;
+
+/**
+ * Utility function standing for the unsubscribe function of a listener which is not subscribed.
+ *
+ * @returns `false`, since there is no listener to unsubscribe.
+ */
+export const unsubscribeNothing: UnsubscribeEvent = (): boolean => false;
+
+/**
+ * Utility function reporting the errors occurring once `emit` has returned when no callback is provided to receive
+ * them.
+ *
+ * @param error - The error which can't propagate to the caller of `emit`.
+ * @param eventName - The name of the emitted event.
+ */
+export const reportUnhandledError = (error: unknown, eventName: string): void => {
+	// eslint-disable-next-line no-console -- The default report of the errors no caller can catch
+	console.error(`Unhandled error while emitting "${eventName}"`, error);
+};
+
+/**
+ * The functions checking whether a listener is subscribed to an event by name, for the emitters created by
+ * `createEventEmitter` by their `emit` function. They let the modules built on an emitter tell whether their own
+ * listeners are still subscribed, since `unsubscribeAll` may have removed them.
+ */
+export const subscribedListenerChecks = new WeakMap<object, (eventName: string, listener: unknown) => boolean>();
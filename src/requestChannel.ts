@@ -0,0 +1,296 @@
+import {
+	TimeoutError,
+	type EventDescription,
+	type EventEmitter,
+	type EventListener,
+	type UnsubscribeEvent
+} from "./eventEmitter";
+import { subscribedListenerChecks, type UnsafeAny } from "./internal";
+
+/**
+ * Type describing requests by their names, with the type of their parameters and of their result.
+ *
+ * @template RequestType - The names of the requests.
+ * @template Input - The type of the parameters of the requests.
+ * @template Result - The type of the result of the requests.
+ *
+ * @example
+ * type AppRequests = RequestDescription<'getUser', { userId: string }, User> & RequestDescription<'getConfig', void, Config>;
+ */
+export type RequestDescription<RequestType extends string, Input = void, Result = void> = {
+	[P in RequestType]: { params: Input; result: Result };
+};
+
+/**
+ * The data of the event carrying a request over an emitter: the parameters of the request and the function to call
+ * with the promise of its result.
+ *
+ * @template Input - The type of the parameters of the request.
+ * @template Result - The type of the result of the request.
+ */
+export type RequestEvent<Input, Result> = {
+	params: Input;
+	respond: (result: Promise<Result>) => void;
+};
+
+/**
+ * The event description of the events carrying requests, to add to the event description of an emitter so that the
+ * events and the requests share it.
+ *
+ * @template Request - The request description type.
+ *
+ * @example
+ * type AppBus = AppEvents & RequestEvents<AppRequests>;
+ *
+ * const emitter = createEventEmitter<AppBus>();
+ */
+export type RequestEvents<Request extends RequestDescription<string, UnsafeAny, UnsafeAny>> = {
+	[RequestType in keyof Request & string]: RequestEvent<
+		Request[RequestType]["params"],
+		Request[RequestType]["result"]
+	>;
+};
+
+/**
+ * The names of the events of an event description which carry requests.
+ *
+ * @template Event - The event description type.
+ */
+export type RequestNames<Event extends EventDescription<string, UnsafeAny>> = {
+	[EventType in keyof Event & string]: Event[EventType] extends RequestEvent<UnsafeAny, UnsafeAny>
+		? EventType
+		: never;
+}[keyof Event & string];
+
+/**
+ * The type of the parameters of a request.
+ *
+ * @template Event - The event description type.
+ * @template RequestType - The name of the request.
+ */
+export type RequestParameters<
+	Event extends EventDescription<string, UnsafeAny>,
+	RequestType extends RequestNames<Event>
+> = Event[RequestType] extends RequestEvent<infer Input, UnsafeAny> ? Input : never;
+
+/**
+ * The type of the result of a request.
+ *
+ * @template Event - The event description type.
+ * @template RequestType - The name of the request.
+ */
+export type RequestResult<Event extends EventDescription<string, UnsafeAny>, RequestType extends RequestNames<Event>> =
+	Event[RequestType] extends RequestEvent<UnsafeAny, infer Result> ? Result : never;
+
+/**
+ * Function computing the result of a request from its parameters, possibly asynchronously.
+ *
+ * @template Event - The event description type.
+ * @template RequestType - The name of the request.
+ */
+export type RequestHandler<
+	Event extends EventDescription<string, UnsafeAny>,
+	RequestType extends RequestNames<Event>
+> = (
+	parameters: RequestParameters<Event, RequestType>
+) => RequestResult<Event, RequestType> | Promise<RequestResult<Event, RequestType>>;
+
+/**
+ * Options of `request`.
+ */
+export type RequestOptions = {
+	/**
+	 * The number of milliseconds to wait for the result before rejecting with a `TimeoutError`. Waits forever if
+	 * omitted.
+	 */
+	timeout?: number;
+	/**
+	 * A signal rejecting the promise with its reason when it is aborted.
+	 */
+	signal?: AbortSignal;
+};
+
+/**
+ * Function type to register the handler of a request. It returns a function unregistering it.
+ *
+ * @template Event - The event description type.
+ */
+export type HandleRequest<Event extends EventDescription<string, UnsafeAny>> = <
+	RequestType extends RequestNames<Event>
+>(
+	requestName: RequestType,
+	handler: RequestHandler<Event, RequestType>
+) => UnsubscribeEvent;
+
+/**
+ * Function type to send a request and get the promise of its result.
+ *
+ * @template Event - The event description type.
+ */
+export type SendRequest<Event extends EventDescription<string, UnsafeAny>> = <RequestType extends RequestNames<Event>>(
+	requestName: RequestType,
+	parameters: RequestParameters<Event, RequestType>,
+	options?: RequestOptions
+) => Promise<RequestResult<Event, RequestType>>;
+
+/**
+ * The request/response layer of an emitter, returned by `createRequestChannel`.
+ *
+ * @template Event - The event description type.
+ */
+export type RequestChannel<Event extends EventDescription<string, UnsafeAny>> = {
+	/**
+	 * Registers the handler of a request, throwing if the request already has one.
+	 */
+	handle: HandleRequest<Event>;
+	/**
+	 * Sends a request, resolving with its result or rejecting with the error of its handler.
+	 */
+	request: SendRequest<Event>;
+};
+
+/**
+ * Error rejecting the promises of `request` when no handler is registered for the request.
+ */
+export class MissingHandlerError extends Error {
+	/**
+	 * The name of the request without handler.
+	 */
+	readonly requestName: string;
+
+	/**
+	 * Creates an error about a request without handler.
+	 *
+	 * @param requestName - The name of the request without handler.
+	 */
+	constructor(requestName: string) {
+		super(`No handler is registered for "${requestName}"`);
+		this.name = "MissingHandlerError";
+		this.requestName = requestName;
+	}
+}
+
+// The listeners calling the registered handlers by request name, for the emitters by their `emit` function
+const registeredHandlers = new WeakMap<object, Map<string, unknown>>();
+
+/**
+ * Creates a request/response layer on top of an emitter, for the events which are really questions expecting an
+ * answer. A request is emitted as an event named after it, whose data is a `RequestEvent`, so the requests share the
+ * emitter with the other events: its event description includes `RequestEvents`, and its middleware and catch-all
+ * listeners see the requests too. Since the data of the requests holds a function, they can't cross an event bridge.
+ *
+ * A request has a single handler, registered with `handle` by any of the channels of the emitter: `handle` throws if
+ * the request already has one, and `request` rejects with a `MissingHandlerError` if it has none. The other listeners
+ * of the request, such as loggers, are not handlers. A handler unsubscribed by the `unsubscribeAll` function of the
+ * emitter is unregistered as well, even if other listeners subscribe to the request afterward. The promise of `request` resolves with the result of the handler or rejects with its
+ * error, unless the timeout elapses or the signal is aborted first. It also waits forever if a middleware swallows the
+ * request and no timeout is given.
+ *
+ * @template Event - The event description type of the emitter.
+ * @param emitter - The emitter carrying the requests.
+ * @returns The `handle` and `request` functions.
+ *
+ * @example
+ * type AppRequests = RequestDescription<'getUser', { userId: string }, User>;
+ *
+ * const emitter = createEventEmitter<AppEvents & RequestEvents<AppRequests>>();
+ * const { handle, request } = createRequestChannel(emitter);
+ *
+ * handle('getUser', async ({ userId }) => fetchUser(userId));
+ *
+ * const user = await request('getUser', { userId: 'user1' }, { timeout: 5000 });
+ */
+export const createRequestChannel = <Event extends EventDescription<string, UnsafeAny>>(
+	emitter: Pick<EventEmitter<Event>, "subscribe" | "emit" | "eventNames">
+): RequestChannel<Event> => {
+	const { subscribe, emit, eventNames } = emitter;
+	let handlers = registeredHandlers.get(emit);
+	if (!handlers) {
+		handlers = new Map();
+		registeredHandlers.set(emit, handlers);
+	}
+	const channelHandlers = handlers;
+	// A registered handler is gone once `unsubscribeAll` removed its listener, which only the emitters created by
+	// `createEventEmitter` can tell, so the other ones fall back on whether the request has listeners
+	const isSubscribed =
+		subscribedListenerChecks.get(emit) ?? ((requestName: string): boolean => eventNames().includes(requestName));
+
+	const hasHandler = (requestName: keyof Event & string): boolean =>
+		channelHandlers.has(requestName) && isSubscribed(requestName, channelHandlers.get(requestName));
+
+	const handle: HandleRequest<Event> = (requestName, handler) => {
+		if (hasHandler(requestName)) {
+			throw new Error(`A handler is already registered for "${requestName}"`);
+		}
+		const listener: EventListener<Event, typeof requestName> = (_, data) => {
+			const { params, respond } = <RequestEvent<RequestParameters<Event, typeof requestName>, unknown>>data;
+			// Turn the errors thrown synchronously into a rejected promise as well
+			respond(new Promise(resolve => resolve(handler(params))));
+		};
+		const unsubscribe = subscribe(requestName, listener);
+		channelHandlers.set(requestName, listener);
+
+		// Return a function to unregister the handler, unless another handler replaced it meanwhile
+		return (): boolean => {
+			if (channelHandlers.get(requestName) === listener) {
+				channelHandlers.delete(requestName);
+			}
+			return unsubscribe();
+		};
+	};
+
+	const request: SendRequest<Event> = (requestName, parameters, { timeout, signal } = {}) =>
+		new Promise((resolve, reject) => {
+			if (signal?.aborted) {
+				reject(signal.reason);
+				return;
+			}
+			if (!hasHandler(requestName)) {
+				reject(new MissingHandlerError(requestName));
+				return;
+			}
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const cleanUp = (): void => {
+				signal?.removeEventListener("abort", onAbort);
+				clearTimeout(timer);
+			};
+			const onAbort = (): void => {
+				cleanUp();
+				reject(signal?.reason);
+			};
+			signal?.addEventListener("abort", onAbort, { once: true });
+			if (timeout !== undefined) {
+				timer = setTimeout(() => {
+					cleanUp();
+					reject(new TimeoutError(`Timed out after ${timeout} ms waiting for "${requestName}"`, timeout));
+				}, timeout);
+			}
+			const data: RequestEvent<
+				RequestParameters<Event, typeof requestName>,
+				RequestResult<Event, typeof requestName>
+			> = {
+				params: parameters,
+				respond: result => {
+					result.then(
+						value => {
+							cleanUp();
+							resolve(value);
+						},
+						(error: unknown) => {
+							cleanUp();
+							reject(error);
+						}
+					);
+				}
+			};
+			try {
+				emit(requestName, <Event[typeof requestName]>data);
+			} catch (error) {
+				// Another listener of the request threw with the `throw` error policy
+				cleanUp();
+				reject(error);
+			}
+		});
+
+	return { handle, request };
+};
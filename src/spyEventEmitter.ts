@@ -0,0 +1,183 @@
+import {
+	awaited,
+	createEventEmitter,
+	type AnyEvent,
+	type EmitEvent,
+	type EmitMiddleware,
+	type EventDescription,
+	type EventEmitter,
+	type EventEmitterOptions,
+	type EventPredicate,
+	type SubscribeAnyEvent,
+	type SubscribeEvent,
+	type SubscribePatternEvent,
+	type UnsubscribeAllEvents
+} from "./eventEmitter";
+import type { UnsafeAny } from "./internal";
+
+/**
+ * A subscription made to a spy emitter: to an event by name, with `subscribe` or `subscribeWeak`, to the events
+ * matching a pattern, or to all the events.
+ *
+ * @template Event - The event description type.
+ */
+export type SpySubscription<Event extends EventDescription<string, UnsafeAny>> =
+	| { kind: "event"; eventName: keyof Event & string }
+	| { kind: "pattern"; pattern: string }
+	| { kind: "any" };
+
+/**
+ * Options of `waitForEmit`.
+ */
+export type WaitForEmitOptions = {
+	/**
+	 * The number of milliseconds after which the promise is rejected with a `TimeoutError`. Defaults to 1000.
+	 */
+	timeout?: number;
+	/**
+	 * A signal rejecting the promise with its reason when it is aborted.
+	 */
+	signal?: AbortSignal;
+};
+
+/**
+ * Function type to wait for an event to be emitted, optionally with data matching a predicate.
+ *
+ * @template Event - The event description type.
+ */
+export type WaitForEmit<Event extends EventDescription<string, UnsafeAny>> = <EventType extends keyof Event & string>(
+	eventName: EventType,
+	predicate?: EventPredicate<Event, EventType>,
+	options?: WaitForEmitOptions
+) => Promise<Event[EventType]>;
+
+/**
+ * An emitter recording every emitted event and every subscription, returned by `createSpyEmitter`. It is a regular
+ * emitter, with the same tuple and named functions, which also exposes what it recorded.
+ *
+ * @template Event - The event description type.
+ */
+export type SpyEventEmitter<Event extends EventDescription<string, UnsafeAny>> = EventEmitter<Event> & {
+	/**
+	 * The events emitted since the spy was created or cleared, in the order they were emitted, with the data passed to
+	 * the emit functions before any middleware transforms it.
+	 */
+	emitted: readonly AnyEvent<Event>[];
+	/**
+	 * The subscriptions made since the spy was created or cleared, in the order they were made.
+	 */
+	subscriptions: readonly SpySubscription<Event>[];
+	/**
+	 * Waits for an event to be emitted, resolving at once if it was already emitted since the spy was cleared.
+	 */
+	waitForEmit: WaitForEmit<Event>;
+	/**
+	 * Forgets the recorded events and subscriptions. The listeners stay subscribed.
+	 */
+	clear: () => void;
+};
+
+/**
+ * Creates an emitter recording every emitted event and every subscription, to check in tests how the code under test
+ * uses it. It doesn't depend on any test framework: its records are plain arrays, and `eventMatchers` provides Jest
+ * and Vitest matchers on top of them.
+ *
+ * The events are recorded by a middleware called before the ones of the options and the ones added with `use`, so
+ * the swallowed events are recorded too. `waitForEmit` resolves with the recorded data of the first matching event
+ * emitted since the spy was cleared, or of the next one, and rejects with a `TimeoutError` after one second by default.
+ *
+ * @template Event - The event description type.
+ * @param options - Optional emitter configuration, as for `createEventEmitter`.
+ * @returns An emitter also exposing the recorded `emitted` events and `subscriptions`, `waitForEmit` and `clear`.
+ *
+ * @example
+ * type AppEvents = EventDescription<'userLogin' | 'userLogout', { userId: string }>;
+ *
+ * const emitter = createSpyEmitter<AppEvents>();
+ * const session = createSession(emitter);
+ *
+ * session.login('user1');
+ *
+ * expect(emitter.emitted).toEqual([{ eventName: 'userLogin', data: { userId: 'user1' } }]);
+ * expect(emitter.subscriptions).toContainEqual({ kind: 'event', eventName: 'userLogout' });
+ *
+ * // Wait for an event emitted asynchronously
+ * const { userId } = await emitter.waitForEmit('userLogout', data => data.userId === 'user1');
+ */
+export const createSpyEmitter = <
+	Event extends EventDescription<string, UnsafeAny> = EventDescription<string, UnsafeAny>
+>(
+	options: EventEmitterOptions<Event> = {}
+): SpyEventEmitter<Event> => {
+	const emitted: AnyEvent<Event>[] = [];
+	const subscriptions: SpySubscription<Event>[] = [];
+	// Notifies the pending `waitForEmit` promises of the recorded events
+	const recordings = createEventEmitter<Event>();
+
+	const record: EmitMiddleware<Event> = (eventName, data, next) => {
+		emitted.push(<AnyEvent<Event>>{ eventName, data });
+		recordings.emit(eventName, data);
+		return next(data);
+	};
+	const emitter = createEventEmitter<Event>({ ...options, middleware: [record, ...(options.middleware ?? [])] });
+
+	const subscribe: SubscribeEvent<Event> = (eventName, listener, predicateOrOptions) => {
+		subscriptions.push({ kind: "event", eventName });
+		return emitter.subscribe(eventName, listener, predicateOrOptions);
+	};
+	const subscribeWeak: SubscribeEvent<Event> = (eventName, listener, predicateOrOptions) => {
+		subscriptions.push({ kind: "event", eventName });
+		return emitter.subscribeWeak(eventName, listener, predicateOrOptions);
+	};
+	const subscribeAny: SubscribeAnyEvent<Event> = (listener, predicateOrOptions) => {
+		subscriptions.push({ kind: "any" });
+		return emitter.subscribeAny(listener, predicateOrOptions);
+	};
+	const subscribePattern: SubscribePatternEvent<Event> = (pattern, listener, predicateOrOptions) => {
+		subscriptions.push({ kind: "pattern", pattern });
+		return emitter.subscribePattern(pattern, listener, predicateOrOptions);
+	};
+
+	const waitForEmit: WaitForEmit<Event> = (
+		eventName,
+		predicate = (): boolean => true,
+		{ timeout = 1000, signal } = {}
+	) => {
+		const entry = emitted.find(
+			event => event.eventName === eventName && predicate(<Event[typeof eventName]>event.data)
+		);
+		return entry
+			? Promise.resolve(<Event[typeof eventName]>entry.data)
+			: awaited(recordings.subscribe)(eventName, { predicate, timeout, signal });
+	};
+
+	const clear = (): void => {
+		emitted.length = 0;
+		subscriptions.length = 0;
+	};
+
+	const functions = {
+		subscribe,
+		emit: emitter.emit,
+		unsubscribeAll: emitter.unsubscribeAll,
+		subscribeAny,
+		subscribePattern,
+		subscribeWeak,
+		emitCancelable: emitter.emitCancelable,
+		emitAsync: emitter.emitAsync,
+		emitSerial: emitter.emitSerial,
+		clearSticky: emitter.clearSticky,
+		listenerCount: emitter.listenerCount,
+		eventNames: emitter.eventNames,
+		hasListeners: emitter.hasListeners,
+		use: emitter.use,
+		emitted,
+		subscriptions,
+		waitForEmit,
+		clear
+	};
+	return Object.assign<[SubscribeEvent<Event>, EmitEvent<Event>, UnsubscribeAllEvents<Event>], typeof functions>(
+		[subscribe, emitter.emit, emitter.unsubscribeAll],
+		functions
+	);
+};
@@ -0,0 +1,185 @@
+import {
+	createEventEmitter,
+	type EventDescription,
+	type EventEmitterOptions,
+	type EventPredicate,
+	type UnsubscribeEvent
+} from "./eventEmitter";
+
+/**
+ * A change of the value of a store, or of the part of it picked by a selector.
+ *
+ * @template Value - The type of the value.
+ */
+export type StoreChange<Value> = {
+	previous: Value;
+	current: Value;
+};
+
+/**
+ * The event description of the emitter behind a store, whose `change` event carries the changes of its value.
+ *
+ * @template Value - The type of the value of the store.
+ */
+export type StoreEvents<Value> = EventDescription<"change", StoreChange<Value>>;
+
+/**
+ * Function type picking the part of the value of a store a listener depends on.
+ *
+ * @template Value - The type of the value of the store.
+ * @template Selected - The type of the picked part.
+ */
+export type StoreSelector<Value, Selected> = (value: Value) => Selected;
+
+/**
+ * Function type of the listeners of a store, called with the change of the part of the value they depend on.
+ *
+ * @template Selected - The type of the part of the value the listener depends on.
+ */
+export type StoreListener<Selected> = (change: StoreChange<Selected>) => void | Promise<void>;
+
+/**
+ * Function type to subscribe a listener to the changes of a store, or of the part of its value picked by a selector.
+ * The listener is only called when the picked part changes according to the equality function, which defaults to
+ * `Object.is`. It returns a function to unsubscribe the listener.
+ *
+ * @template Value - The type of the value of the store.
+ *
+ * @example
+ * const store = createStore({ user: { name: 'Alice' }, theme: 'light' });
+ *
+ * // Called when the theme changes, but not when the user changes
+ * const unsubscribe = store.subscribe(({ previous, current }) => applyTheme(current), state => state.theme);
+ *
+ * // Called when the name of the user changes, even if the user object is replaced
+ * store.subscribe(renderUser, state => state.user, (previous, current) => previous.name === current.name);
+ */
+export type SubscribeStore<Value> = <Selected = Value>(
+	listener: StoreListener<Selected>,
+	selector?: StoreSelector<Value, Selected>,
+	equals?: (previous: Selected, current: Selected) => boolean
+) => UnsubscribeEvent;
+
+/**
+ * Options of a store created with `createStore`: the error policy of its listeners and the callback receiving their
+ * failures, as for `createEventEmitter`.
+ *
+ * @template Value - The type of the value of the store.
+ */
+export type StoreOptions<Value> = Pick<EventEmitterOptions<StoreEvents<Value>>, "errorPolicy" | "onError">;
+
+/**
+ * An observable value, returned by `createStore`.
+ *
+ * @template Value - The type of the value.
+ */
+export type Store<Value> = {
+	/**
+	 * Returns the current value.
+	 */
+	get: () => Value;
+	/**
+	 * Replaces the value, notifying the listeners unless it is the same value.
+	 */
+	set: (value: Value) => void;
+	/**
+	 * Replaces the value with the result of a function of the current value.
+	 */
+	update: (updater: (value: Value) => Value) => void;
+	/**
+	 * Subscribes a listener to the changes of the value, or of a part of it.
+	 */
+	subscribe: SubscribeStore<Value>;
+	/**
+	 * Runs a function setting the value several times, notifying the listeners once it returns.
+	 */
+	batch: (updates: () => void) => void;
+};
+
+/**
+ * Creates a store holding an observable value, built on an emitter whose `change` event carries the previous and the
+ * current value. The listeners are subscribed to this event with a predicate comparing the parts of the value they
+ * depend on, so they follow the usual subscription semantics: they are called in subscription order, and can be
+ * unsubscribed while a change is delivered.
+ *
+ * Setting the same value, according to `Object.is`, doesn't notify the listeners. The values set within `batch`,
+ * including nested batches, notify the listeners once the outermost batch returns or throws, with the value before the
+ * batch as the previous value, unless the value is the same in the end.
+ *
+ * @template Value - The type of the value.
+ * @param initial - The initial value.
+ * @param options - Optional configuration: the error policy of the listeners and the `onError` callback.
+ * @returns The store, with `get`, `set`, `update`, `subscribe` and `batch` functions.
+ *
+ * @example
+ * const counter = createStore({ count: 0, step: 1 });
+ *
+ * counter.subscribe(({ previous, current }) => console.log(`${previous} -> ${current}`), state => state.count);
+ *
+ * counter.update(state => ({ ...state, count: state.count + state.step })); // Logs "0 -> 1"
+ * counter.set({ ...counter.get(), step: 2 }); // Logs nothing, since the count didn't change
+ *
+ * // Logs "1 -> 5" once
+ * counter.batch(() => {
+ *   counter.update(state => ({ ...state, count: 3 }));
+ *   counter.update(state => ({ ...state, count: 5 }));
+ * });
+ */
+export const createStore = <Value>(initial: Value, options: StoreOptions<Value> = {}): Store<Value> => {
+	const { subscribe: subscribeChange, emit } = createEventEmitter<StoreEvents<Value>>(options);
+	let value = initial;
+	let batchDepth = 0;
+	// The value before the outermost ongoing batch
+	let batchedValue = initial;
+
+	const get = (): Value => value;
+
+	// Notify the listeners of a change, unless the value is the same
+	const notify = (previous: Value, current: Value): void => {
+		if (!Object.is(previous, current)) {
+			emit("change", { previous, current });
+		}
+	};
+
+	const set = (nextValue: Value): void => {
+		const previous = value;
+		value = nextValue;
+		if (batchDepth === 0) {
+			notify(previous, nextValue);
+		}
+	};
+
+	const update = (updater: (value: Value) => Value): void => set(updater(value));
+
+	const batch = (updates: () => void): void => {
+		if (batchDepth === 0) {
+			batchedValue = value;
+		}
+		batchDepth += 1;
+		try {
+			updates();
+		} finally {
+			batchDepth -= 1;
+			if (batchDepth === 0) {
+				notify(batchedValue, value);
+			}
+		}
+	};
+
+	const subscribe: SubscribeStore<Value> = <Selected = Value>(
+		listener: StoreListener<Selected>,
+		selector: StoreSelector<Value, Selected> = (selected): Selected => <Selected>(<unknown>selected),
+		equals: (previous: Selected, current: Selected) => boolean = Object.is
+	) => {
+		// Only deliver the changes of the selected part of the value
+		const predicate: EventPredicate<StoreEvents<Value>, "change"> = ({ previous, current }) =>
+			!equals(selector(previous), selector(current));
+		return subscribeChange(
+			"change",
+			(_, { previous, current }) => listener({ previous: selector(previous), current: selector(current) }),
+			predicate
+		);
+	};
+
+	return { get, set, update, subscribe, batch };
+};
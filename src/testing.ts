@@ -0,0 +1,2 @@
+export * from "./eventMatchers";
+export * from "./spyEventEmitter";
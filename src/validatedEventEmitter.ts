@@ -0,0 +1,189 @@
+import { createEventEmitter, type EmitMiddleware, type EventEmitter, type EventEmitterOptions } from "./eventEmitter";
+
+/**
+ * An issue reported by a Standard Schema when a value is invalid.
+ *
+ * @see https://standardschema.dev
+ */
+export type StandardSchemaIssue = {
+	/**
+	 * The description of the issue.
+	 */
+	readonly message: string;
+	/**
+	 * The path of the invalid part of the value, if any.
+	 */
+	readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+};
+
+/**
+ * The result of validating a value with a Standard Schema: either the validated value or the issues found.
+ *
+ * @template Output - The type of the validated value.
+ *
+ * @see https://standardschema.dev
+ */
+export type StandardSchemaResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * A schema implementing the Standard Schema interface, which validation libraries such as Zod, Valibot and ArkType
+ * implement. Zohar only relies on this interface, so it doesn't depend on any of them.
+ *
+ * @template Input - The type of the values the schema accepts.
+ * @template Output - The type of the values the schema produces.
+ *
+ * @see https://standardschema.dev
+ */
+export type StandardSchema<Input = unknown, Output = Input> = {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+		readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+	};
+};
+
+/**
+ * A map of the schemas validating the data of each event.
+ */
+export type EventSchemas = Record<string, StandardSchema<unknown, unknown>>;
+
+/**
+ * The event description inferred from a map of event schemas, associating each event with the output type of its
+ * schema.
+ *
+ * @template Schemas - The map of event schemas.
+ *
+ * @example
+ * const schemas = { userLogin: z.object({ userId: z.string() }), logout: z.void() };
+ *
+ * // { userLogin: { userId: string }; logout: void }
+ * type AppEvents = EventDescriptionFromSchemas<typeof schemas>;
+ */
+export type EventDescriptionFromSchemas<Schemas extends EventSchemas> = {
+	[EventType in keyof Schemas & string]: NonNullable<Schemas[EventType]["~standard"]["types"]>["output"];
+};
+
+/**
+ * Error thrown, or passed to `onInvalid`, when the data of an emitted event doesn't match the schema of the event.
+ *
+ * @example
+ * try {
+ *   emit('userLogin', JSON.parse(message));
+ * } catch (error) {
+ *   if (error instanceof EventValidationError) {
+ *     console.log(error.eventName, error.issues);
+ *   }
+ * }
+ */
+export class EventValidationError extends Error {
+	/**
+	 * The name of the emitted event.
+	 */
+	readonly eventName: string;
+	/**
+	 * The invalid data of the emitted event.
+	 */
+	readonly data: unknown;
+	/**
+	 * The issues reported by the schema of the event.
+	 */
+	readonly issues: ReadonlyArray<StandardSchemaIssue>;
+
+	/**
+	 * Creates a validation error.
+	 *
+	 * @param eventName - The name of the emitted event.
+	 * @param data - The invalid data of the emitted event.
+	 * @param issues - The issues reported by the schema of the event.
+	 */
+	constructor(eventName: string, data: unknown, issues: ReadonlyArray<StandardSchemaIssue>) {
+		super(`Invalid data for "${eventName}": ${issues.map(({ message }) => message).join("; ")}`);
+		this.name = "EventValidationError";
+		this.eventName = eventName;
+		this.data = data;
+		this.issues = issues;
+	}
+}
+
+/**
+ * Options to configure an event emitter created with `createValidatedEventEmitter`.
+ *
+ * @template Schemas - The map of event schemas.
+ */
+export type ValidatedEventEmitterOptions<Schemas extends EventSchemas> = EventEmitterOptions<
+	EventDescriptionFromSchemas<Schemas>
+> & {
+	/**
+	 * Callback receiving the validation errors of the invalid events, which are then dropped. Emitting an invalid event
+	 * throws an `EventValidationError` if omitted.
+	 */
+	onInvalid?: (error: EventValidationError) => void;
+};
+
+/**
+ * Creates an event emitter validating the data of the emitted events with Standard Schemas before any listener runs.
+ * The event description of the emitter is inferred from the schemas, and the listeners receive the output of the
+ * schemas, so schemas transforming their input work as well.
+ *
+ * The validation runs as the first middleware of the emitter. Invalid events are dropped: `emit` throws an
+ * `EventValidationError` unless `onInvalid` is provided, in which case it receives the error instead. Since the
+ * events validated by asynchronous schemas reach the listeners later, their validation errors reject the promises of
+ * `emitAsync` and `emitSerial`. When the events are emitted with `emit`, they are passed to `onUnhandledError` unless
+ * `onInvalid` is provided.
+ *
+ * @template Schemas - The map of event schemas.
+ * @param schemas - The schemas validating the data of each event.
+ * @param options - Optional emitter configuration, including the `onInvalid` callback.
+ * @returns An event emitter, like the one created by `createEventEmitter`.
+ *
+ * @example
+ * import { z } from 'zod';
+ *
+ * const [subscribe, emit] = createValidatedEventEmitter({
+ *   userLogin: z.object({ userId: z.string() }),
+ *   userLogout: z.object({ userId: z.string() })
+ * });
+ *
+ * subscribe('userLogin', (eventName, data) => console.log(`${data.userId} logged in`));
+ *
+ * // Throws an `EventValidationError` before any listener runs
+ * emit('userLogin', JSON.parse('{ "userId": 42 }'));
+ *
+ * // Report the invalid events instead of throwing
+ * const [subscribeSafe, emitSafe] = createValidatedEventEmitter(schemas, {
+ *   onInvalid: error => console.warn(error.message)
+ * });
+ */
+export const createValidatedEventEmitter = <Schemas extends EventSchemas>(
+	schemas: Schemas,
+	{ onInvalid, middleware = [], ...options }: ValidatedEventEmitterOptions<Schemas> = {}
+): EventEmitter<EventDescriptionFromSchemas<Schemas>> => {
+	type Event = EventDescriptionFromSchemas<Schemas>;
+
+	// Throw the validation error of an invalid event, or report it
+	const reject = (eventName: string, data: unknown, issues: ReadonlyArray<StandardSchemaIssue>): void => {
+		const error = new EventValidationError(eventName, data, issues);
+		if (!onInvalid) {
+			throw error;
+		}
+		onInvalid(error);
+	};
+
+	// Validate the data of every emitted event, passing the output of the schema on
+	const validate: EmitMiddleware<Event> = (eventName, data, next) => {
+		// Ignore the properties inherited by the map, as untyped sources may emit any event name
+		const schema = Object.prototype.hasOwnProperty.call(schemas, eventName) ? schemas[eventName] : undefined;
+		if (!schema) {
+			return reject(eventName, data, [{ message: `No schema is defined for the "${eventName}" event` }]);
+		}
+		const settle = (result: StandardSchemaResult<unknown>): void | Promise<void> =>
+			result.issues ? reject(eventName, data, result.issues) : next(<Event[typeof eventName]>result.value);
+		const result = schema["~standard"].validate(data);
+		return result instanceof Promise ? result.then(settle) : settle(result);
+	};
+
+	return createEventEmitter<Event>({ ...options, middleware: [validate, ...middleware] });
+};